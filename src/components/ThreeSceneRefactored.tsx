@@ -1,22 +1,29 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { 
   useThreeRenderer, 
   useSettings, 
   useProjectManager, 
   useAnimations, 
   useCapture,
-  useSmoothCameraControls
+  useSmoothCameraControls,
+  useFocalPointHandle,
+  useRenderStats
 } from '../hooks';
 import { ControlPanel } from './controls';
 import { ProjectManager } from './project';
 import { 
   SaveProjectModal, 
   DeleteConfirmModal, 
-  CaptureListModal 
+  CaptureListModal,
+  PaletteImportModal
 } from './modals';
 import { Modal } from './ui/Modal';
 import { ToastContainer, useToast } from './ui/Toast';
+import { RenderStatsOverlay } from './ui/RenderStatsOverlay';
 import { KEYBOARD_SHORTCUTS, CAMERA_DEFAULTS, isKeyMatch } from '../constants';
+import { generateHarmonyPalette } from '../utils/paletteGenerator';
+import { StorageFullError } from '../utils/storage';
+import { ColorGroup } from '../types';
 
 interface Project {
   name: string;
@@ -36,6 +43,7 @@ const ThreeSceneRefactored: React.FC = () => {
   const [showProjectDetails, setShowProjectDetails] = useState(false);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [showCaptureList, setShowCaptureList] = useState(false);
+  const [showPaletteImport, setShowPaletteImport] = useState(false);
   const [showShortcutsGuide, setShowShortcutsGuide] = useState(true);
   const [cameraControlType, setCameraControlType] = useState<'trackball' | 'orbit'>('orbit');
   const [isZenMode, setIsZenMode] = useState(false);
@@ -68,6 +76,7 @@ const ThreeSceneRefactored: React.FC = () => {
     regenerateColors,
   } = useSettings({
     onCameraControlTypeChange: setCameraControlType,
+    onStorageError: (message) => toast.error(message),
   });
 
   // 3D 렌더링 훅
@@ -78,14 +87,17 @@ const ThreeSceneRefactored: React.FC = () => {
     cameraRef,
     controlsRef,
     circlesRef,
-    animationIdRef,
+    renderScheduler,
+    colorGroupCounts,
     initSceneWithControlType,
     createCircles,
     updateColors,
     updateTransforms,
     resetCameraPosition,
-    animate,
+    startRenderLoop,
     handleResize,
+    setMaxQuality,
+    mapGridPoint,
   } = useThreeRenderer({
     settings,
     colorSeedRef,
@@ -119,6 +131,7 @@ const ThreeSceneRefactored: React.FC = () => {
     rendererRef,
     sceneRef,
     cameraRef,
+    setMaxQuality,
   });
 
   // 애니메이션 훅
@@ -128,8 +141,8 @@ const ThreeSceneRefactored: React.FC = () => {
     cleanupAnimations,
   } = useAnimations({
     settings,
-    circlesRef,
     handleSettingChange,
+    renderScheduler,
   });
 
   // 캡처 훅
@@ -140,6 +153,7 @@ const ThreeSceneRefactored: React.FC = () => {
     sceneRef,
     cameraRef,
     settings,
+    setMaxQuality,
   });
 
   // 부드러운 카메라 컨트롤 훅
@@ -148,9 +162,26 @@ const ThreeSceneRefactored: React.FC = () => {
     isMoving,
   } = useSmoothCameraControls({
     controlsRef,
+    renderScheduler,
     isEnabled: !isZenMode, // Zen 모드에서는 비활성화
   });
 
+  // 초점 스케일링 핸들 (캔버스에서 드래그)
+  useFocalPointHandle({
+    sceneRef,
+    cameraRef,
+    rendererRef,
+    controlsRef,
+    settings,
+    handleSettingChange,
+    renderScheduler,
+    mapGridPoint,
+    isVisible: !isZenMode, // Zen 모드에서는 숨김
+  });
+
+  // 디버그용 렌더링 통계
+  const renderStats = useRenderStats(rendererRef, settings.showRenderStats && !isZenMode);
+
   // 카메라 컨트롤 타입 변경
   const changeCameraControlType = useCallback((type: 'trackball' | 'orbit') => {
     setCameraControlType(type);
@@ -186,14 +217,32 @@ const ThreeSceneRefactored: React.FC = () => {
     toast.success('Colors have been regenerated with a new random seed!');
   }, [regenerateColors, createCircles, saveSettings, toast]);
 
+  // 조화 팔레트 생성 (randomizeHue면 기준 색상각도 새로 뽑음, 잠긴 그룹은 유지)
+  const handleGenerateHarmony = useCallback((randomizeHue: boolean) => {
+    const baseHue = randomizeHue ? Math.floor(Math.random() * 360) : settings.harmonyBaseHue;
+    const groups = generateHarmonyPalette(settings.colorGroups, {
+      rule: settings.harmonyRule,
+      baseHue,
+      lightness: settings.harmonyLightness,
+      chroma: settings.harmonyChroma
+    });
+    handleSettingChange('harmonyBaseHue', baseHue);
+    handleSettingChange('colorGroups', groups);
+    toast.success('Harmony palette generated!');
+  }, [settings.colorGroups, settings.harmonyRule, settings.harmonyBaseHue, settings.harmonyLightness, settings.harmonyChroma, handleSettingChange, toast]);
+
   // URL 공유
   const handleShareURL = useCallback(async () => {
-    const result = await shareProject(getCurrentSettings());
+    const currentSettings = getCurrentSettings();
+    const result = await shareProject(currentSettings);
     if (result.success) {
       const message = result.type === 'tinyurl' 
         ? `TinyURL copied to clipboard!\n${result.url}`
         : `Share URL copied to clipboard!\n${result.url}`;
       toast.success(message);
+      if (currentSettings.halftoneImage) {
+        toast.warning('The halftone image is not included in share links.');
+      }
     } else {
       alert(`Share URL:\n${result.url}`);
     }
@@ -240,7 +289,7 @@ const ThreeSceneRefactored: React.FC = () => {
       toast.success(`Project "${name}" saved successfully.`);
     } catch (error) {
       console.error('Error saving project:', error);
-      toast.error('Error saving project.');
+      toast.error(error instanceof StorageFullError ? error.message : 'Error saving project.');
     }
   }, [saveProject, setActiveProject, toast]);
 
@@ -280,10 +329,16 @@ const ThreeSceneRefactored: React.FC = () => {
       saveToActiveProject();
       toast.success(`Saved to active project: "${activeProject}"`);
     } catch (error) {
-      toast.error('Error saving to active project.');
+      toast.error(error instanceof StorageFullError ? error.message : 'Error saving to active project.');
     }
   }, [activeProject, saveToActiveProject, toast]);
 
+  // 배치 재생성에 필요한 그룹 필드만 모은 키 (색상/그라디언트 변경은 updateColors가 처리)
+  const usesGroupFills = settings.halftoneEnabled && settings.halftoneColorMode === 'nearestGroup';
+  const colorGroupLayoutKey = useMemo(() => JSON.stringify(settings.colorGroups.map((group: ColorGroup) => [
+    group.id, group.frequency, group.extrusionDepth, usesGroupFills ? group.fill : null
+  ])), [settings.colorGroups, usesGroupFills]);
+
   // Effects for auto-update when controls change
   useEffect(() => {
     if (sceneRef.current) {
@@ -291,9 +346,24 @@ const ThreeSceneRefactored: React.FC = () => {
     }
   }, [
     settings.rows, settings.cols, settings.rowSpacing, settings.colSpacing,
-    settings.shapeType, settings.circleRadius, settings.rectangleWidth, settings.rectangleHeight,
+    settings.gridLayout, settings.brickOffset, settings.spiralCount, settings.spiralAngle,
+    settings.scatterMinDistance, settings.jitterPosition, settings.jitterRotation, settings.jitterScale,
+    settings.jitterSeed, settings.shapeSeed,
+    settings.halftoneEnabled, settings.halftoneMinScale, settings.halftoneInvert, settings.halftoneColorMode,
+    settings.shapeType, settings.adaptiveTessellation, settings.circleRadius, settings.rectangleWidth, settings.rectangleHeight,
+    settings.polygonSides, settings.polygonRotation, settings.cornerRadius,
+    settings.customSvg,
     settings.enableWidthScaling, settings.widthScaleFactor, settings.borderThickness,
-    settings.frequency1, settings.frequency2, settings.frequency3, settings.frequency4,
+    settings.extrusionEnabled,
+    settings.bevelEnabled, settings.bevelSize, settings.bevelSegments,
+    settings.widthScaleCurve, settings.widthScaleWaves, settings.widthScalePoints,
+    settings.enableHeightScaling, settings.heightScaleFactor, settings.heightScaleCurve,
+    settings.heightScaleWaves, settings.heightScalePoints,
+    settings.enableRadiusScaling, settings.radiusScaleFactor, settings.radiusScaleAxis,
+    settings.radiusScaleCurve, settings.radiusScaleWaves, settings.radiusScalePoints,
+    settings.enableFocalScaling, settings.focalPointX, settings.focalPointY, settings.focalRadius,
+    settings.focalScaleFactor, settings.focalScaleCurve, settings.focalScaleWaves, settings.focalScalePoints,
+    colorGroupLayoutKey, settings.colorStrategy, settings.exactColorQuotas, settings.colorBandWidth, settings.colorNoiseScale,
     createCircles
   ]);
 
@@ -307,10 +377,7 @@ const ThreeSceneRefactored: React.FC = () => {
 
     return () => clearTimeout(timeoutId);
   }, [
-    settings.fill1, settings.stroke1, settings.syncColors1,
-    settings.fill2, settings.stroke2, settings.syncColors2,
-    settings.fill3, settings.stroke3, settings.syncColors3,
-    settings.fill4, settings.stroke4, settings.syncColors4,
+    settings.colorGroups,
     updateColors, sceneRef, circlesRef
   ]);
 
@@ -319,9 +386,14 @@ const ThreeSceneRefactored: React.FC = () => {
       updateTransforms();
     }
   }, [
+    settings.surfaceMapping,
     settings.cylinderAxis, settings.cylinderCurvature, settings.cylinderRadius,
+    settings.sphereCurvature, settings.sphereRadius,
+    settings.torusCurvature, settings.torusMajorRadius, settings.torusMinorRadius,
+    settings.coneCurvature, settings.coneRadius, settings.coneAngle,
+    settings.saddleCurvature, settings.saddleRadius, settings.deformers,
     settings.objectPositionX, settings.objectPositionY, settings.objectPositionZ,
-    settings.rotationX, settings.rotationY, settings.rotationZ,
+    settings.rotationX, settings.rotationY, settings.rotationZ, settings.orientToRadius,
     updateTransforms, sceneRef, circlesRef
   ]);
 
@@ -390,7 +462,7 @@ const ThreeSceneRefactored: React.FC = () => {
 
     initSceneWithControlType(cameraControlType);
     createCircles();
-    animate();
+    startRenderLoop();
 
     if (urlLoaded) {
       setTimeout(() => {
@@ -401,9 +473,7 @@ const ThreeSceneRefactored: React.FC = () => {
     window.addEventListener('resize', handleResize);
 
     return () => {
-      if (animationIdRef.current) {
-        cancelAnimationFrame(animationIdRef.current);
-      }
+      renderScheduler.stop();
       cleanupAnimations();
       if (controlsRef.current) {
         controlsRef.current.dispose();
@@ -457,6 +527,9 @@ const ThreeSceneRefactored: React.FC = () => {
         onCameraControlTypeChange={changeCameraControlType}
         onAnimateRotationY={animateRotationY}
         isRotationAnimating={isRotationAnimating}
+        colorGroupCounts={colorGroupCounts}
+        onOpenPaletteImport={() => setShowPaletteImport(true)}
+        onGenerateHarmony={handleGenerateHarmony}
       />
 
       {/* Toast Container */}
@@ -478,6 +551,9 @@ const ThreeSceneRefactored: React.FC = () => {
         </div>
       )}
 
+      {/* Render Stats (Debug) */}
+      <RenderStatsOverlay stats={renderStats} />
+
       {/* Project Panel Sidebar */}
       <div className={`fixed top-4 left-4 h-[calc(100vh-2rem)] z-10 transition-all duration-300 ease-in-out ${showProjectManager ? 'translate-x-0 opacity-100 scale-100' : '-translate-x-full opacity-0 scale-95'}`}>
         <ProjectManager
@@ -580,6 +656,17 @@ const ThreeSceneRefactored: React.FC = () => {
         existingProjects={getExistingProjectNames()}
       />
 
+      {/* Palette Import Modal */}
+      <PaletteImportModal
+        isOpen={showPaletteImport}
+        onClose={() => setShowPaletteImport(false)}
+        groups={settings.colorGroups}
+        onApply={(groups) => {
+          handleSettingChange('colorGroups', groups);
+          toast.success('Palette applied');
+        }}
+      />
+
       {/* Project Details Modal */}
       {showProjectDetails && selectedProject && (
         <Modal
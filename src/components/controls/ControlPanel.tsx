@@ -1,5 +1,19 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChevronRight, RotateCcw, Share2, Camera, Palette, Download, List } from 'lucide-react';
+import { ChevronRight, ChevronUp, ChevronDown, RotateCcw, Share2, Camera, Palette, Download, List, Plus, Trash2, Lock, Unlock, Sparkles } from 'lucide-react';
+import { RADIAL_LAYOUTS } from '../../utils/gridLayouts';
+import { readHalftoneImageFile } from '../../utils/halftone';
+import { compactSvg, MAX_CUSTOM_SVG_LENGTH } from '../../utils/svgShape';
+import { DEFAULT_CURVE_POINTS, evaluateScaleCurve } from '../../utils/scaleCurves';
+import { createDeformer } from '../../utils/deformers';
+import {
+    createColorGroup,
+    DEFAULT_EXTRUSION_DEPTH,
+    getDefaultStrokeColor,
+    getGroupPaletteColor,
+    moveColorGroup
+} from '../../utils/colorGroups';
+import { createDefaultGradient, sampleGradient } from '../../utils/gradientFill';
+import { ColorGroup, ColorStrategy, CurvePoint, Deformer, DeformerType, GradientFill, HarmonyRule } from '../../types';
 
 // 폴더 컴포넌트
 interface FolderProps {
@@ -641,6 +655,383 @@ export const ColorPicker: React.FC<ColorPickerProps> = ({
     );
 };
 
+// SVG 도형 입력 컴포넌트
+interface SvgShapeInputProps {
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+}
+
+export const SvgShapeInput: React.FC<SvgShapeInputProps> = ({
+    label,
+    value,
+    onChange
+}) => {
+    const [draft, setDraft] = useState(value);
+    const [error, setError] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // 외부에서 값이 바뀌면 (프로젝트 로드 등) 편집 중인 내용도 갱신
+    useEffect(() => {
+        setDraft(value);
+    }, [value]);
+
+    // 설정과 공유 URL에는 윤곽선만 남긴 짧은 SVG를 저장
+    const applySvg = (text: string) => {
+        if (!text.trim()) {
+            setError('');
+            onChange('');
+            return;
+        }
+
+        const compacted = compactSvg(text);
+        if (!compacted) {
+            setError('No shapes found in this SVG.');
+        } else if (compacted.length > MAX_CUSTOM_SVG_LENGTH) {
+            setError('This SVG is too detailed to save. Try a simpler shape.');
+        } else {
+            setError('');
+            setDraft(compacted);
+            onChange(compacted);
+        }
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = () => {
+            const text = reader.result as string;
+            setDraft(text);
+            applySvg(text);
+        };
+        reader.readAsText(file);
+        // 같은 파일을 다시 선택할 수 있도록 초기화
+        e.target.value = '';
+    };
+
+    return (
+        <div className="space-y-2">
+            <label className="text-sm text-[#666] font-medium">{label}</label>
+            <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="input-glass w-full h-24 px-2 py-1 text-xs font-mono resize-none"
+                placeholder='<svg ...>...</svg> or path data "M0 0 L10 0 ..."'
+                spellCheck={false}
+            />
+            <div className="flex gap-2">
+                <button
+                    onClick={() => applySvg(draft)}
+                    disabled={draft === value}
+                    className="flex-1 btn-primary text-xs py-1 disabled:opacity-50"
+                >
+                    Apply
+                </button>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex-1 btn-secondary text-xs py-1"
+                >
+                    Load File
+                </button>
+                <button
+                    onClick={() => applySvg('')}
+                    className="btn-secondary text-xs py-1 px-2"
+                    title="Clear SVG"
+                >
+                    Clear
+                </button>
+            </div>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".svg,image/svg+xml"
+                onChange={handleFileChange}
+                className="hidden"
+            />
+            {error && (
+                <p className="text-xs font-medium" style={{ color: 'var(--accent-red)' }}>{error}</p>
+            )}
+        </div>
+    );
+};
+
+// 하프톤 이미지 입력 컴포넌트
+interface HalftoneImageInputProps {
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+}
+
+export const HalftoneImageInput: React.FC<HalftoneImageInputProps> = ({
+    label,
+    value,
+    onChange
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // 같은 파일을 다시 선택할 수 있도록 초기화
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            onChange(await readHalftoneImageFile(file));
+        } catch (error) {
+            console.warn('Failed to read halftone image:', error);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <label className="text-sm text-[#666] font-medium">{label}</label>
+            {value && (
+                <img
+                    src={value}
+                    alt="Halftone source"
+                    className="w-full max-h-32 object-contain rounded border border-[#e5e5e5]"
+                />
+            )}
+            <div className="flex gap-2">
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex-1 btn-secondary text-xs py-1"
+                >
+                    {value ? 'Replace Image' : 'Load Image'}
+                </button>
+                {value && (
+                    <button
+                        onClick={() => onChange('')}
+                        className="btn-secondary text-xs py-1 px-2"
+                        title="Clear Image"
+                    >
+                        Clear
+                    </button>
+                )}
+            </div>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleFileChange}
+                className="hidden"
+            />
+        </div>
+    );
+};
+
+// 곡선 편집기 컴포넌트
+// 점을 드래그해 이동, 빈 곳을 더블클릭해 추가, 가운데 점을 더블클릭해 삭제 (양 끝 점은 x 고정)
+interface CurveEditorProps {
+    label: string;
+    points: CurvePoint[];
+    onChange: (points: CurvePoint[]) => void;
+    onReset?: () => void;
+}
+
+const CURVE_EDITOR_WIDTH = 200;
+const CURVE_EDITOR_HEIGHT = 120;
+const CURVE_EDITOR_PADDING = 8;
+
+export const CurveEditor: React.FC<CurveEditorProps> = ({
+    label,
+    points,
+    onChange,
+    onReset
+}) => {
+    const [draft, setDraft] = useState(points);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    // 외부에서 값이 바뀌면 (프로젝트 로드 등) 편집 중인 내용도 갱신
+    useEffect(() => {
+        setDraft(points);
+    }, [points]);
+
+    const innerWidth = CURVE_EDITOR_WIDTH - CURVE_EDITOR_PADDING * 2;
+    const innerHeight = CURVE_EDITOR_HEIGHT - CURVE_EDITOR_PADDING * 2;
+    const toSvgX = (x: number) => CURVE_EDITOR_PADDING + x * innerWidth;
+    const toSvgY = (y: number) => CURVE_EDITOR_PADDING + (1 - y) * innerHeight;
+
+    // 포인터 위치를 0~1 곡선 좌표로 변환
+    const toCurvePoint = (e: React.PointerEvent | React.MouseEvent): CurvePoint => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        const x = ((e.clientX - rect.left) / rect.width * CURVE_EDITOR_WIDTH - CURVE_EDITOR_PADDING) / innerWidth;
+        const y = 1 - ((e.clientY - rect.top) / rect.height * CURVE_EDITOR_HEIGHT - CURVE_EDITOR_PADDING) / innerHeight;
+        return { x: Math.min(1, Math.max(0, x)), y: Math.min(1, Math.max(0, y)) };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (dragIndex === null) return;
+        const point = toCurvePoint(e);
+
+        setDraft(prev => prev.map((p, i) => {
+            if (i !== dragIndex) return p;
+            // 양 끝 점은 x를 고정하고, 가운데 점은 이웃 점 사이에서만 이동
+            if (i === 0) return { x: 0, y: point.y };
+            if (i === prev.length - 1) return { x: 1, y: point.y };
+            return {
+                x: Math.min(prev[i + 1].x - 0.01, Math.max(prev[i - 1].x + 0.01, point.x)),
+                y: point.y
+            };
+        }));
+    };
+
+    const handlePointerUp = () => {
+        if (dragIndex === null) return;
+        setDragIndex(null);
+        onChange(draft);
+    };
+
+    const handleAddPoint = (e: React.MouseEvent<SVGSVGElement>) => {
+        const point = toCurvePoint(e);
+        if (point.x <= 0 || point.x >= 1) return;
+        const next = [...draft, point].sort((a, b) => a.x - b.x);
+        setDraft(next);
+        onChange(next);
+    };
+
+    const handleRemovePoint = (index: number) => {
+        if (index === 0 || index === draft.length - 1) return;
+        const next = draft.filter((_, i) => i !== index);
+        setDraft(next);
+        onChange(next);
+    };
+
+    // 미리보기 곡선 (제어점 사이 선형 보간)
+    const previewPath = Array.from({ length: 41 }, (_, i) => {
+        const x = i / 40;
+        const y = evaluateScaleCurve({ type: 'custom', points: draft }, x);
+        return `${i === 0 ? 'M' : 'L'}${toSvgX(x).toFixed(1)},${toSvgY(y).toFixed(1)}`;
+    }).join(' ');
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <label className="text-sm text-[#666] font-medium">{label}</label>
+                {onReset && (
+                    <button
+                        onClick={onReset}
+                        className="text-xs text-[#FF9500] hover:text-[#FF6B00] smooth-transition p-1 rounded"
+                        title="Reset to default"
+                    >
+                        <RotateCcw className="w-3 h-3" />
+                    </button>
+                )}
+            </div>
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${CURVE_EDITOR_WIDTH} ${CURVE_EDITOR_HEIGHT}`}
+                className="input-glass w-full touch-none select-none"
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+                onDoubleClick={handleAddPoint}
+            >
+                <rect
+                    x={CURVE_EDITOR_PADDING}
+                    y={CURVE_EDITOR_PADDING}
+                    width={innerWidth}
+                    height={innerHeight}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeOpacity={0.15}
+                />
+                <path d={previewPath} fill="none" stroke="#007AFF" strokeWidth={2} />
+                {draft.map((point, index) => (
+                    <circle
+                        key={index}
+                        cx={toSvgX(point.x)}
+                        cy={toSvgY(point.y)}
+                        r={5}
+                        fill={dragIndex === index ? '#FF9500' : '#007AFF'}
+                        stroke="white"
+                        strokeWidth={1.5}
+                        className="cursor-pointer"
+                        onPointerDown={(e) => {
+                            e.stopPropagation();
+                            svgRef.current?.setPointerCapture(e.pointerId);
+                            setDragIndex(index);
+                        }}
+                        onDoubleClick={(e) => {
+                            e.stopPropagation();
+                            handleRemovePoint(index);
+                        }}
+                    />
+                ))}
+            </svg>
+            <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                Drag points · double-click to add or remove
+            </p>
+        </div>
+    );
+};
+
+// 크기 변조 곡선 옵션
+const SCALE_CURVE_OPTIONS = {
+    linear: 'Linear',
+    easeIn: 'Ease In',
+    easeOut: 'Ease Out',
+    easeInOut: 'Ease In/Out',
+    sine: 'Sine Wave',
+    bulge: 'Center Bulge',
+    custom: 'Custom Curve'
+};
+
+// 곡선 종류/주기/사용자 정의 곡선 설정 묶음 (prefix: width, height, radius)
+interface ScaleCurveControlsProps {
+    prefix: 'width' | 'height' | 'radius' | 'focal';
+    settings: ControlPanelProps['settings'];
+    onSettingChange: ControlPanelProps['onSettingChange'];
+    defaultCurve?: string;
+}
+
+const ScaleCurveControls: React.FC<ScaleCurveControlsProps> = ({
+    prefix,
+    settings,
+    onSettingChange,
+    defaultCurve = 'linear'
+}) => {
+    const curveKey = `${prefix}ScaleCurve`;
+    const wavesKey = `${prefix}ScaleWaves`;
+    const pointsKey = `${prefix}ScalePoints`;
+
+    return (
+        <>
+            <Select
+                label="Curve"
+                value={settings[curveKey]}
+                options={SCALE_CURVE_OPTIONS}
+                onChange={(value) => onSettingChange(curveKey, value)}
+                resetValue={defaultCurve}
+                onReset={() => onSettingChange(curveKey, defaultCurve)}
+            />
+            {settings[curveKey] === 'sine' && (
+                <Slider
+                    label="Waves"
+                    value={settings[wavesKey]}
+                    min={0.5}
+                    max={10}
+                    step={0.5}
+                    onChange={(value) => onSettingChange(wavesKey, value)}
+                    resetValue={1}
+                    onReset={() => onSettingChange(wavesKey, 1)}
+                />
+            )}
+            {settings[curveKey] === 'custom' && (
+                <CurveEditor
+                    label="Custom Curve"
+                    points={settings[pointsKey]}
+                    onChange={(points) => onSettingChange(pointsKey, points)}
+                    onReset={() => onSettingChange(pointsKey, DEFAULT_CURVE_POINTS)}
+                />
+            )}
+        </>
+    );
+};
+
 // 버튼 컴포넌트
 interface ButtonProps {
     label: string;
@@ -687,6 +1078,468 @@ export const Button: React.FC<ButtonProps> = ({
     );
 };
 
+// 변형기 스택 편집 컴포넌트 (위에서부터 순서대로 적용)
+interface DeformerStackProps {
+    deformers: Deformer[];
+    onChange: (deformers: Deformer[]) => void;
+}
+
+const DEFORMER_LABELS: Record<DeformerType, string> = {
+    sineWave: 'Sine Wave',
+    noise: 'Noise',
+    twist: 'Twist',
+    taper: 'Taper'
+};
+
+export const DeformerStack: React.FC<DeformerStackProps> = ({ deformers, onChange }) => {
+    const updateDeformer = (id: string, changes: Partial<Deformer>) => {
+        onChange(deformers.map(d => (d.id === id ? { ...d, ...changes } as Deformer : d)));
+    };
+
+    const moveDeformer = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= deformers.length) return;
+        const next = [...deformers];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    const iconButtonClass = "p-1 rounded smooth-transition hover:bg-gray-100 disabled:opacity-30";
+
+    return (
+        <div className="space-y-3">
+            {deformers.length === 0 && (
+                <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                    No deformers. Add one below.
+                </p>
+            )}
+            {deformers.map((deformer, index) => (
+                <div key={deformer.id} className="space-y-3 rounded-lg border p-2" style={{ borderColor: 'var(--dropdown-border)' }}>
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>
+                            {index + 1}. {DEFORMER_LABELS[deformer.type]}
+                        </span>
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={() => moveDeformer(index, -1)}
+                                disabled={index === 0}
+                                className={iconButtonClass}
+                                title="Move up"
+                            >
+                                <ChevronUp className="w-3 h-3" />
+                            </button>
+                            <button
+                                onClick={() => moveDeformer(index, 1)}
+                                disabled={index === deformers.length - 1}
+                                className={iconButtonClass}
+                                title="Move down"
+                            >
+                                <ChevronDown className="w-3 h-3" />
+                            </button>
+                            <button
+                                onClick={() => onChange(deformers.filter(d => d.id !== deformer.id))}
+                                className={`${iconButtonClass} text-[#FF3B30]`}
+                                title="Remove deformer"
+                            >
+                                <Trash2 className="w-3 h-3" />
+                            </button>
+                        </div>
+                    </div>
+                    <Toggle
+                        label="Enabled"
+                        value={deformer.enabled}
+                        onChange={(value) => updateDeformer(deformer.id, { enabled: value })}
+                    />
+                    {deformer.type === 'sineWave' && (
+                        <>
+                            <Select
+                                label="Axis"
+                                value={deformer.axis}
+                                options={{ x: 'Along X', y: 'Along Y' }}
+                                onChange={(value) => updateDeformer(deformer.id, { axis: value as 'x' | 'y' })}
+                            />
+                            <Slider
+                                label="Amplitude"
+                                value={deformer.amplitude}
+                                min={-5}
+                                max={5}
+                                step={0.01}
+                                onChange={(value) => updateDeformer(deformer.id, { amplitude: value })}
+                            />
+                            <Slider
+                                label="Frequency"
+                                value={deformer.frequency}
+                                min={0}
+                                max={1}
+                                step={0.005}
+                                onChange={(value) => updateDeformer(deformer.id, { frequency: value })}
+                            />
+                            <Slider
+                                label="Phase"
+                                value={deformer.phase}
+                                min={-Math.PI}
+                                max={Math.PI}
+                                step={0.01}
+                                onChange={(value) => updateDeformer(deformer.id, { phase: value })}
+                            />
+                        </>
+                    )}
+                    {deformer.type === 'noise' && (
+                        <>
+                            <Slider
+                                label="Amplitude"
+                                value={deformer.amplitude}
+                                min={0}
+                                max={5}
+                                step={0.01}
+                                onChange={(value) => updateDeformer(deformer.id, { amplitude: value })}
+                            />
+                            <Slider
+                                label="Scale"
+                                value={deformer.scale}
+                                min={0.01}
+                                max={1}
+                                step={0.01}
+                                onChange={(value) => updateDeformer(deformer.id, { scale: value })}
+                            />
+                            <Slider
+                                label="Tilt"
+                                value={deformer.tilt}
+                                min={0}
+                                max={Math.PI / 2}
+                                step={0.01}
+                                onChange={(value) => updateDeformer(deformer.id, { tilt: value })}
+                            />
+                            <Slider
+                                label="Evolution"
+                                value={deformer.evolution}
+                                min={0}
+                                max={10}
+                                step={0.01}
+                                onChange={(value) => updateDeformer(deformer.id, { evolution: value })}
+                            />
+                            <Button
+                                label="New Noise Seed"
+                                onClick={() => updateDeformer(deformer.id, { seed: Math.floor(Math.random() * 1000000) })}
+                                variant="secondary"
+                                size="sm"
+                                icon={<RotateCcw className="w-3 h-3" />}
+                            />
+                        </>
+                    )}
+                    {deformer.type === 'twist' && (
+                        <>
+                            <Select
+                                label="Axis"
+                                value={deformer.axis}
+                                options={{ x: 'Along Columns (X)', y: 'Along Rows (Y)' }}
+                                onChange={(value) => updateDeformer(deformer.id, { axis: value as 'x' | 'y' })}
+                            />
+                            <Slider
+                                label="Twist Angle"
+                                value={deformer.angle}
+                                min={-Math.PI * 4}
+                                max={Math.PI * 4}
+                                step={0.01}
+                                onChange={(value) => updateDeformer(deformer.id, { angle: value })}
+                            />
+                        </>
+                    )}
+                    {deformer.type === 'taper' && (
+                        <>
+                            <Select
+                                label="Axis"
+                                value={deformer.axis}
+                                options={{ x: 'Along Columns (X)', y: 'Along Rows (Y)' }}
+                                onChange={(value) => updateDeformer(deformer.id, { axis: value as 'x' | 'y' })}
+                            />
+                            <Slider
+                                label="Taper Amount"
+                                value={deformer.amount}
+                                min={-1}
+                                max={1}
+                                step={0.01}
+                                onChange={(value) => updateDeformer(deformer.id, { amount: value })}
+                            />
+                        </>
+                    )}
+                </div>
+            ))}
+            <div className="grid grid-cols-2 gap-2">
+                <Button
+                    label="Add Sine Wave"
+                    onClick={() => onChange([...deformers, createDeformer('sineWave')])}
+                    variant="secondary"
+                    size="sm"
+                    icon={<Plus className="w-3 h-3" />}
+                />
+                <Button
+                    label="Add Noise"
+                    onClick={() => onChange([...deformers, createDeformer('noise')])}
+                    variant="secondary"
+                    size="sm"
+                    icon={<Plus className="w-3 h-3" />}
+                />
+                <Button
+                    label="Add Twist"
+                    onClick={() => onChange([...deformers, createDeformer('twist')])}
+                    variant="secondary"
+                    size="sm"
+                    icon={<Plus className="w-3 h-3" />}
+                />
+                <Button
+                    label="Add Taper"
+                    onClick={() => onChange([...deformers, createDeformer('taper')])}
+                    variant="secondary"
+                    size="sm"
+                    icon={<Plus className="w-3 h-3" />}
+                />
+            </div>
+        </div>
+    );
+};
+
+// 그라디언트 채우기 편집 컴포넌트 (정지점은 최소 2개 유지)
+interface GradientEditorProps {
+    gradient: GradientFill;
+    onChange: (gradient: GradientFill) => void;
+}
+
+export const GradientEditor: React.FC<GradientEditorProps> = ({ gradient, onChange }) => {
+    const updateStop = (index: number, changes: Partial<GradientFill['stops'][number]>) => {
+        onChange({ ...gradient, stops: gradient.stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)) });
+    };
+
+    // 가장 넓은 정지점 사이 가운데에 새 정지점 추가
+    const addStop = () => {
+        const sorted = [...gradient.stops].sort((a, b) => a.offset - b.offset);
+        let offset = 0.5;
+        let widest = -1;
+        for (let i = 1; i < sorted.length; i++) {
+            const gap = sorted[i].offset - sorted[i - 1].offset;
+            if (gap > widest) {
+                widest = gap;
+                offset = (sorted[i].offset + sorted[i - 1].offset) / 2;
+            }
+        }
+        const color = sampleGradient(gradient.stops, offset);
+        onChange({
+            ...gradient,
+            stops: [...gradient.stops, {
+                offset,
+                color: { r: Math.round(color.r), g: Math.round(color.g), b: Math.round(color.b), a: color.a }
+            }]
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            <Select
+                label="Fill Type"
+                value={gradient.type}
+                options={{ none: 'Solid', linear: 'Linear Gradient', radial: 'Radial Gradient' }}
+                onChange={(value) => onChange({ ...gradient, type: value as GradientFill['type'] })}
+                resetValue="none"
+                onReset={() => onChange({ ...gradient, type: 'none' })}
+            />
+            {gradient.type !== 'none' && (
+                <>
+                    {gradient.type === 'linear' && (
+                        <Slider
+                            label="Angle"
+                            value={gradient.angle}
+                            min={0}
+                            max={360}
+                            step={1}
+                            onChange={(value) => onChange({ ...gradient, angle: value })}
+                            resetValue={90}
+                            onReset={() => onChange({ ...gradient, angle: 90 })}
+                        />
+                    )}
+                    <Toggle
+                        label="Across Whole Grid"
+                        value={gradient.space === 'grid'}
+                        onChange={(value) => onChange({ ...gradient, space: value ? 'grid' : 'cell' })}
+                        resetValue={false}
+                        onReset={() => onChange({ ...gradient, space: 'cell' })}
+                    />
+                    {gradient.stops.map((stop, index) => (
+                        <div key={index} className="space-y-2">
+                            <div className="flex items-center gap-1">
+                                <div className="flex-1">
+                                    <ColorPicker
+                                        label={`Stop ${index + 1}`}
+                                        value={stop.color}
+                                        onChange={(value) => updateStop(index, { color: value })}
+                                    />
+                                </div>
+                                <button
+                                    onClick={() => onChange({ ...gradient, stops: gradient.stops.filter((_, i) => i !== index) })}
+                                    disabled={gradient.stops.length <= 2}
+                                    className="p-1 rounded smooth-transition hover:bg-gray-100 disabled:opacity-30 text-[#FF3B30]"
+                                    title="Remove stop"
+                                >
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            </div>
+                            <Slider
+                                label="Position"
+                                value={stop.offset}
+                                min={0}
+                                max={1}
+                                step={0.01}
+                                onChange={(value) => updateStop(index, { offset: value })}
+                            />
+                        </div>
+                    ))}
+                    <Button
+                        label="Add Stop"
+                        onClick={addStop}
+                        variant="secondary"
+                        size="sm"
+                        icon={<Plus className="w-3 h-3" />}
+                    />
+                </>
+            )}
+        </div>
+    );
+};
+
+// 색상 그룹 목록 편집 컴포넌트 (최소 1개 유지)
+interface ColorGroupListProps {
+    groups: ColorGroup[];
+    onChange: (groups: ColorGroup[]) => void;
+    counts?: number[]; // 그룹별 실제 셀 수
+}
+
+export const ColorGroupList: React.FC<ColorGroupListProps> = ({ groups, onChange, counts }) => {
+    const updateGroup = (id: string, changes: Partial<ColorGroup>) => {
+        onChange(groups.map(g => (g.id === id ? { ...g, ...changes } : g)));
+    };
+
+    const iconButtonClass = "p-1 rounded smooth-transition hover:bg-gray-100 disabled:opacity-30";
+
+    return (
+        <div className="space-y-3">
+            {groups.map((group, index) => (
+                <div key={group.id} className="space-y-3 rounded-lg border p-2" style={{ borderColor: 'var(--dropdown-border)' }}>
+                    <div className="flex items-center justify-between">
+                        <span className="flex items-center gap-2 text-sm font-medium" style={{ color: 'var(--text-primary)' }}>
+                            <span
+                                className="w-3 h-3 rounded-full border"
+                                style={{
+                                    backgroundColor: `rgba(${group.fill.r}, ${group.fill.g}, ${group.fill.b}, ${group.fill.a})`,
+                                    borderColor: 'var(--dropdown-border)'
+                                }}
+                            />
+                            Color Group {index + 1}
+                            {counts?.[index] !== undefined && (
+                                <span className="text-xs font-normal" style={{ color: 'var(--text-tertiary)' }}>
+                                    {counts[index].toLocaleString()} cells
+                                </span>
+                            )}
+                        </span>
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={() => updateGroup(group.id, { locked: !group.locked })}
+                                className={iconButtonClass}
+                                title={group.locked ? 'Unlock colors' : 'Lock colors (keep when generating palettes)'}
+                            >
+                                {group.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                            </button>
+                            <button
+                                onClick={() => onChange(moveColorGroup(groups, index, index - 1))}
+                                disabled={index === 0}
+                                className={iconButtonClass}
+                                title="Move up"
+                            >
+                                <ChevronUp className="w-3 h-3" />
+                            </button>
+                            <button
+                                onClick={() => onChange(moveColorGroup(groups, index, index + 1))}
+                                disabled={index === groups.length - 1}
+                                className={iconButtonClass}
+                                title="Move down"
+                            >
+                                <ChevronDown className="w-3 h-3" />
+                            </button>
+                            <button
+                                onClick={() => onChange(groups.filter(g => g.id !== group.id))}
+                                disabled={groups.length <= 1}
+                                className={`${iconButtonClass} text-[#FF3B30]`}
+                                title="Remove color group"
+                            >
+                                <Trash2 className="w-3 h-3" />
+                            </button>
+                        </div>
+                    </div>
+                    <Slider
+                        label="Frequency"
+                        value={group.frequency}
+                        min={0}
+                        max={5}
+                        step={0.1}
+                        onChange={(value) => updateGroup(group.id, { frequency: value })}
+                        resetValue={1}
+                        onReset={() => updateGroup(group.id, { frequency: 1 })}
+                    />
+                    <Toggle
+                        label="Sync Colors"
+                        value={group.syncColors}
+                        onChange={(value) => updateGroup(group.id, { syncColors: value })}
+                        resetValue={false}
+                        onReset={() => updateGroup(group.id, { syncColors: false })}
+                    />
+                    <ColorPicker
+                        label="Fill Color"
+                        value={group.fill}
+                        onChange={(value) => updateGroup(group.id, { fill: value })}
+                        resetValue={getGroupPaletteColor(index)}
+                        onReset={() => updateGroup(group.id, { fill: getGroupPaletteColor(index) })}
+                    />
+                    <GradientEditor
+                        gradient={group.gradient ?? createDefaultGradient(group.fill)}
+                        onChange={(gradient) => updateGroup(group.id, { gradient })}
+                    />
+                    <ColorPicker
+                        label="Stroke Color"
+                        value={group.syncColors ? group.fill : group.stroke}
+                        onChange={(value) => updateGroup(group.id, { stroke: value })}
+                        resetValue={getDefaultStrokeColor()}
+                        onReset={() => updateGroup(group.id, { stroke: getDefaultStrokeColor() })}
+                    />
+                </div>
+            ))}
+            <Button
+                label="Add Color Group"
+                onClick={() => onChange([...groups, createColorGroup(groups.length)])}
+                variant="secondary"
+                size="sm"
+                icon={<Plus className="w-3 h-3" />}
+            />
+        </div>
+    );
+};
+
+const COLOR_STRATEGY_LABELS: Record<ColorStrategy, string> = {
+    random: 'Random',
+    checkerboard: 'Checkerboard',
+    rowStripes: 'Row Stripes',
+    columnStripes: 'Column Stripes',
+    diagonal: 'Diagonal Bands',
+    radial: 'Radial Gradient',
+    noise: 'Noise Clusters',
+    noNeighbors: 'No Equal Neighbors'
+};
+
+const HARMONY_RULE_LABELS: Record<HarmonyRule, string> = {
+    complementary: 'Complementary',
+    triadic: 'Triadic',
+    analogous: 'Analogous',
+    splitComplementary: 'Split-Complementary',
+    tetradic: 'Tetradic'
+};
+
 // 메인 컨트롤 패널 컴포넌트
 interface ControlPanelProps {
     settings: any;
@@ -703,6 +1556,9 @@ interface ControlPanelProps {
     onCameraControlTypeChange: (type: 'trackball' | 'orbit') => void;
     onAnimateRotationY: () => void;
     isRotationAnimating: boolean;
+    colorGroupCounts?: number[];
+    onOpenPaletteImport?: () => void;
+    onGenerateHarmony?: (randomizeHue: boolean) => void;
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
@@ -719,7 +1575,10 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     cameraControlType,
     onCameraControlTypeChange,
     onAnimateRotationY,
-    isRotationAnimating
+    isRotationAnimating,
+    colorGroupCounts,
+    onOpenPaletteImport,
+    onGenerateHarmony
 }) => {
     return (
         <>
@@ -779,6 +1638,15 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                                 size="sm"
                                 icon={<Palette className="w-3 h-3" />}
                             />
+                            {onGenerateHarmony && (
+                                <Button
+                                    label="Harmony"
+                                    onClick={() => onGenerateHarmony(true)}
+                                    variant="secondary"
+                                    size="sm"
+                                    icon={<Sparkles className="w-3 h-3" />}
+                                />
+                            )}
                             <Button
                                 label="Share"
                                 onClick={onShareURL}
@@ -826,18 +1694,21 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                                 resetValue={12}
                                 onReset={() => onSettingChange('cols', 12)}
                             />
+                            {/* 다이아몬드 격자는 열 간격 하나로 두 축을 정함 */}
+                            {settings.gridLayout !== 'diamond' && (
+                                <Slider
+                                    label="Row Spacing"
+                                    value={settings.rowSpacing}
+                                    min={0.1}
+                                    max={20}
+                                    step={0.1}
+                                    onChange={(value) => onSettingChange('rowSpacing', value)}
+                                    resetValue={2}
+                                    onReset={() => onSettingChange('rowSpacing', 2)}
+                                />
+                            )}
                             <Slider
-                                label="Row Spacing"
-                                value={settings.rowSpacing}
-                                min={0.1}
-                                max={20}
-                                step={0.1}
-                                onChange={(value) => onSettingChange('rowSpacing', value)}
-                                resetValue={2}
-                                onReset={() => onSettingChange('rowSpacing', 2)}
-                            />
-                            <Slider
-                                label="Column Spacing"
+                                label={settings.gridLayout === 'diamond' ? 'Diamond Spacing' : 'Column Spacing'}
                                 value={settings.colSpacing}
                                 min={0.1}
                                 max={20}
@@ -846,17 +1717,196 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                                 resetValue={2}
                                 onReset={() => onSettingChange('colSpacing', 2)}
                             />
+                            <Select
+                                label="Layout"
+                                value={settings.gridLayout}
+                                options={{
+                                    rectangular: 'Rectangular',
+                                    hexagonal: 'Hexagonal',
+                                    brick: 'Brick Offset',
+                                    diamond: 'Diamond',
+                                    polar: 'Polar (Rings × Spokes)',
+                                    concentric: 'Concentric Rings',
+                                    spiral: 'Fermat Spiral',
+                                    scatter: 'Organic Scatter'
+                                }}
+                                onChange={(value) => onSettingChange('gridLayout', value)}
+                                resetValue="rectangular"
+                                onReset={() => onSettingChange('gridLayout', 'rectangular')}
+                            />
+                            {settings.gridLayout === 'brick' && (
+                                <Slider
+                                    label="Brick Offset"
+                                    value={settings.brickOffset}
+                                    min={0}
+                                    max={1}
+                                    step={0.01}
+                                    onChange={(value) => onSettingChange('brickOffset', value)}
+                                    resetValue={0.5}
+                                    onReset={() => onSettingChange('brickOffset', 0.5)}
+                                />
+                            )}
+                            {settings.gridLayout === 'spiral' && (
+                                <>
+                                    <NumberInput
+                                        label="Spiral Points"
+                                        value={settings.spiralCount}
+                                        min={1}
+                                        max={2000}
+                                        step={1}
+                                        onChange={(value) => onSettingChange('spiralCount', value)}
+                                        resetValue={200}
+                                        onReset={() => onSettingChange('spiralCount', 200)}
+                                    />
+                                    <Slider
+                                        label="Spiral Angle (°)"
+                                        value={settings.spiralAngle}
+                                        min={0}
+                                        max={360}
+                                        step={0.01}
+                                        onChange={(value) => onSettingChange('spiralAngle', value)}
+                                        resetValue={137.508}
+                                        onReset={() => onSettingChange('spiralAngle', 137.508)}
+                                    />
+                                </>
+                            )}
+                            {settings.gridLayout === 'scatter' && (
+                                <>
+                                    <Slider
+                                        label="Min Distance"
+                                        value={settings.scatterMinDistance}
+                                        min={0.2}
+                                        max={10}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('scatterMinDistance', value)}
+                                        resetValue={1.8}
+                                        onReset={() => onSettingChange('scatterMinDistance', 1.8)}
+                                    />
+                                    <Button
+                                        label="New Layout Seed"
+                                        onClick={() => onSettingChange('shapeSeed', Math.floor(Math.random() * 1000000))}
+                                        variant="secondary"
+                                        size="sm"
+                                        icon={<RotateCcw className="w-3 h-3" />}
+                                    />
+                                </>
+                            )}
+                            {RADIAL_LAYOUTS.includes(settings.gridLayout) && (
+                                <Toggle
+                                    label="Orient Along Radius"
+                                    value={settings.orientToRadius}
+                                    onChange={(value) => onSettingChange('orientToRadius', value)}
+                                    resetValue={false}
+                                    onReset={() => onSettingChange('orientToRadius', false)}
+                                />
+                            )}
+                        </Folder>
+
+                        <Folder title="Jitter" defaultCollapsed={true}>
+                            <Slider
+                                label="Position Jitter"
+                                value={settings.jitterPosition}
+                                min={0}
+                                max={5}
+                                step={0.01}
+                                onChange={(value) => onSettingChange('jitterPosition', value)}
+                                resetValue={0}
+                                onReset={() => onSettingChange('jitterPosition', 0)}
+                            />
+                            <Slider
+                                label="Rotation Jitter"
+                                value={settings.jitterRotation}
+                                min={0}
+                                max={Math.PI}
+                                step={0.01}
+                                onChange={(value) => onSettingChange('jitterRotation', value)}
+                                resetValue={0}
+                                onReset={() => onSettingChange('jitterRotation', 0)}
+                            />
+                            <Slider
+                                label="Scale Jitter"
+                                value={settings.jitterScale}
+                                min={0}
+                                max={0.9}
+                                step={0.01}
+                                onChange={(value) => onSettingChange('jitterScale', value)}
+                                resetValue={0}
+                                onReset={() => onSettingChange('jitterScale', 0)}
+                            />
+                            <Button
+                                label="New Jitter Seed"
+                                onClick={() => onSettingChange('jitterSeed', Math.floor(Math.random() * 1000000))}
+                                variant="secondary"
+                                size="sm"
+                                icon={<RotateCcw className="w-3 h-3" />}
+                            />
+                        </Folder>
+
+                        <Folder title="Halftone" defaultCollapsed={true}>
+                            <Toggle
+                                label="Enable Halftone"
+                                value={settings.halftoneEnabled}
+                                onChange={(value) => onSettingChange('halftoneEnabled', value)}
+                                resetValue={false}
+                                onReset={() => onSettingChange('halftoneEnabled', false)}
+                            />
+                            <HalftoneImageInput
+                                label="Source Image"
+                                value={settings.halftoneImage}
+                                onChange={(value) => onSettingChange('halftoneImage', value)}
+                            />
+                            <Slider
+                                label="Min Size"
+                                value={settings.halftoneMinScale}
+                                min={0}
+                                max={1}
+                                step={0.01}
+                                onChange={(value) => onSettingChange('halftoneMinScale', value)}
+                                resetValue={0.1}
+                                onReset={() => onSettingChange('halftoneMinScale', 0.1)}
+                            />
+                            <Toggle
+                                label="Invert"
+                                value={settings.halftoneInvert}
+                                onChange={(value) => onSettingChange('halftoneInvert', value)}
+                                resetValue={false}
+                                onReset={() => onSettingChange('halftoneInvert', false)}
+                            />
+                            <Select
+                                label="Color Mode"
+                                value={settings.halftoneColorMode}
+                                options={{ none: 'Group Colors', nearestGroup: 'Nearest Color Group', direct: 'Sampled Colors' }}
+                                onChange={(value) => onSettingChange('halftoneColorMode', value)}
+                                resetValue="none"
+                                onReset={() => onSettingChange('halftoneColorMode', 'none')}
+                            />
                         </Folder>
 
                         <Folder title="Shape Settings" defaultCollapsed={false}>
                             <Select
                                 label="Shape Type"
                                 value={settings.shapeType}
-                                options={{ circle: 'Circle', rectangle: 'Rectangle' }}
+                                options={{ circle: 'Circle', rectangle: 'Rectangle', polygon: 'Polygon', roundedRectangle: 'Rounded Rectangle', custom: 'Custom SVG' }}
                                 onChange={(value) => onSettingChange('shapeType', value)}
                                 resetValue="circle"
                                 onReset={() => onSettingChange('shapeType', 'circle')}
                             />
+                            {settings.shapeType === 'custom' && (
+                                <SvgShapeInput
+                                    label="SVG Shape"
+                                    value={settings.customSvg}
+                                    onChange={(value) => onSettingChange('customSvg', value)}
+                                />
+                            )}
+                            {settings.shapeType === 'circle' && (
+                                <Toggle
+                                    label="Adaptive Tessellation"
+                                    value={settings.adaptiveTessellation}
+                                    onChange={(value) => onSettingChange('adaptiveTessellation', value)}
+                                    resetValue={true}
+                                    onReset={() => onSettingChange('adaptiveTessellation', true)}
+                                />
+                            )}
                             <Slider
                                 label="Circle Radius"
                                 value={settings.circleRadius}
@@ -887,22 +1937,35 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                                 resetValue={1.2}
                                 onReset={() => onSettingChange('rectangleHeight', 1.2)}
                             />
-                            <Toggle
-                                label="Enable Width Scaling"
-                                value={settings.enableWidthScaling}
-                                onChange={(value) => onSettingChange('enableWidthScaling', value)}
-                                resetValue={false}
-                                onReset={() => onSettingChange('enableWidthScaling', false)}
+                            <Slider
+                                label="Corner Radius"
+                                value={settings.cornerRadius}
+                                min={0}
+                                max={6}
+                                step={0.01}
+                                onChange={(value) => onSettingChange('cornerRadius', value)}
+                                resetValue={0.3}
+                                onReset={() => onSettingChange('cornerRadius', 0.3)}
+                            />
+                            <NumberInput
+                                label="Polygon Sides"
+                                value={settings.polygonSides}
+                                min={3}
+                                max={12}
+                                step={1}
+                                onChange={(value) => onSettingChange('polygonSides', value)}
+                                resetValue={6}
+                                onReset={() => onSettingChange('polygonSides', 6)}
                             />
                             <Slider
-                                label="Width Scale Factor"
-                                value={settings.widthScaleFactor}
-                                min={1.0}
-                                max={100.0}
-                                step={0.1}
-                                onChange={(value) => onSettingChange('widthScaleFactor', value)}
-                                resetValue={2.0}
-                                onReset={() => onSettingChange('widthScaleFactor', 2.0)}
+                                label="Polygon Rotation"
+                                value={settings.polygonRotation}
+                                min={-Math.PI}
+                                max={Math.PI}
+                                step={0.01}
+                                onChange={(value) => onSettingChange('polygonRotation', value)}
+                                resetValue={0}
+                                onReset={() => onSettingChange('polygonRotation', 0)}
                             />
                             <Slider
                                 label="Border Thickness"
@@ -915,38 +1978,371 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                                 onReset={() => onSettingChange('borderThickness', 0.15)}
                             />
                         </Folder>
+
+                        <Folder title="Size Scaling" defaultCollapsed={true}>
+                            <Toggle
+                                label="Enable Width Scaling"
+                                value={settings.enableWidthScaling}
+                                onChange={(value) => onSettingChange('enableWidthScaling', value)}
+                                resetValue={false}
+                                onReset={() => onSettingChange('enableWidthScaling', false)}
+                            />
+                            {settings.enableWidthScaling && (
+                                <>
+                                    <Slider
+                                        label="Width Scale Factor"
+                                        value={settings.widthScaleFactor}
+                                        min={1.0}
+                                        max={100.0}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('widthScaleFactor', value)}
+                                        resetValue={2.0}
+                                        onReset={() => onSettingChange('widthScaleFactor', 2.0)}
+                                    />
+                                    <ScaleCurveControls prefix="width" settings={settings} onSettingChange={onSettingChange} />
+                                </>
+                            )}
+                            <Toggle
+                                label="Enable Height Scaling"
+                                value={settings.enableHeightScaling}
+                                onChange={(value) => onSettingChange('enableHeightScaling', value)}
+                                resetValue={false}
+                                onReset={() => onSettingChange('enableHeightScaling', false)}
+                            />
+                            {settings.enableHeightScaling && (
+                                <>
+                                    <Slider
+                                        label="Height Scale Factor"
+                                        value={settings.heightScaleFactor}
+                                        min={0.1}
+                                        max={10.0}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('heightScaleFactor', value)}
+                                        resetValue={2.0}
+                                        onReset={() => onSettingChange('heightScaleFactor', 2.0)}
+                                    />
+                                    <ScaleCurveControls prefix="height" settings={settings} onSettingChange={onSettingChange} />
+                                </>
+                            )}
+                            <Toggle
+                                label="Enable Radius Scaling"
+                                value={settings.enableRadiusScaling}
+                                onChange={(value) => onSettingChange('enableRadiusScaling', value)}
+                                resetValue={false}
+                                onReset={() => onSettingChange('enableRadiusScaling', false)}
+                            />
+                            {settings.enableRadiusScaling && (
+                                <>
+                                    <Select
+                                        label="Radius Scale Along"
+                                        value={settings.radiusScaleAxis}
+                                        options={{ columns: 'Columns', rows: 'Rows' }}
+                                        onChange={(value) => onSettingChange('radiusScaleAxis', value)}
+                                        resetValue="columns"
+                                        onReset={() => onSettingChange('radiusScaleAxis', 'columns')}
+                                    />
+                                    <Slider
+                                        label="Radius Scale Factor"
+                                        value={settings.radiusScaleFactor}
+                                        min={0.1}
+                                        max={5.0}
+                                        step={0.05}
+                                        onChange={(value) => onSettingChange('radiusScaleFactor', value)}
+                                        resetValue={2.0}
+                                        onReset={() => onSettingChange('radiusScaleFactor', 2.0)}
+                                    />
+                                    <ScaleCurveControls prefix="radius" settings={settings} onSettingChange={onSettingChange} />
+                                </>
+                            )}
+                            <Toggle
+                                label="Enable Focal Scaling"
+                                value={settings.enableFocalScaling}
+                                onChange={(value) => onSettingChange('enableFocalScaling', value)}
+                                resetValue={false}
+                                onReset={() => onSettingChange('enableFocalScaling', false)}
+                            />
+                            {settings.enableFocalScaling && (
+                                <>
+                                    <Toggle
+                                        label="Show Focal Handle"
+                                        value={settings.showFocalHandle}
+                                        onChange={(value) => onSettingChange('showFocalHandle', value)}
+                                        resetValue={true}
+                                        onReset={() => onSettingChange('showFocalHandle', true)}
+                                    />
+                                    <Slider
+                                        label="Focal Point X"
+                                        value={settings.focalPointX}
+                                        min={-30}
+                                        max={30}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('focalPointX', value)}
+                                        resetValue={0}
+                                        onReset={() => onSettingChange('focalPointX', 0)}
+                                    />
+                                    <Slider
+                                        label="Focal Point Y"
+                                        value={settings.focalPointY}
+                                        min={-30}
+                                        max={30}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('focalPointY', value)}
+                                        resetValue={0}
+                                        onReset={() => onSettingChange('focalPointY', 0)}
+                                    />
+                                    <Slider
+                                        label="Falloff Radius"
+                                        value={settings.focalRadius}
+                                        min={0.5}
+                                        max={40}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('focalRadius', value)}
+                                        resetValue={8}
+                                        onReset={() => onSettingChange('focalRadius', 8)}
+                                    />
+                                    <Slider
+                                        label="Focal Scale Factor"
+                                        value={settings.focalScaleFactor}
+                                        min={0.05}
+                                        max={5.0}
+                                        step={0.05}
+                                        onChange={(value) => onSettingChange('focalScaleFactor', value)}
+                                        resetValue={2.0}
+                                        onReset={() => onSettingChange('focalScaleFactor', 2.0)}
+                                    />
+                                    <ScaleCurveControls prefix="focal" settings={settings} onSettingChange={onSettingChange} defaultCurve="easeInOut" />
+                                </>
+                            )}
+                        </Folder>
+
+                        <Folder title="Extrusion" defaultCollapsed={true}>
+                            <Toggle
+                                label="Enable Extrusion"
+                                value={settings.extrusionEnabled}
+                                onChange={(value) => onSettingChange('extrusionEnabled', value)}
+                                resetValue={false}
+                                onReset={() => onSettingChange('extrusionEnabled', false)}
+                            />
+                            {settings.extrusionEnabled && (
+                                <>
+                                    {settings.colorGroups.map((group: ColorGroup, index: number) => (
+                                        <Slider
+                                            key={group.id}
+                                            label={`Depth (Group ${index + 1})`}
+                                            value={group.extrusionDepth}
+                                            min={0}
+                                            max={3}
+                                            step={0.01}
+                                            onChange={(value) => onSettingChange('colorGroups', settings.colorGroups.map((g: ColorGroup) => (
+                                                g.id === group.id ? { ...g, extrusionDepth: value } : g
+                                            )))}
+                                            resetValue={DEFAULT_EXTRUSION_DEPTH}
+                                            onReset={() => onSettingChange('colorGroups', settings.colorGroups.map((g: ColorGroup) => (
+                                                g.id === group.id ? { ...g, extrusionDepth: DEFAULT_EXTRUSION_DEPTH } : g
+                                            )))}
+                                        />
+                                    ))}
+                                    <Toggle
+                                        label="Bevel"
+                                        value={settings.bevelEnabled}
+                                        onChange={(value) => onSettingChange('bevelEnabled', value)}
+                                        resetValue={false}
+                                        onReset={() => onSettingChange('bevelEnabled', false)}
+                                    />
+                                    {settings.bevelEnabled && (
+                                        <>
+                                            <Slider
+                                                label="Bevel Size"
+                                                value={settings.bevelSize}
+                                                min={0.01}
+                                                max={0.5}
+                                                step={0.01}
+                                                onChange={(value) => onSettingChange('bevelSize', value)}
+                                                resetValue={0.05}
+                                                onReset={() => onSettingChange('bevelSize', 0.05)}
+                                            />
+                                            <NumberInput
+                                                label="Bevel Segments"
+                                                value={settings.bevelSegments}
+                                                min={1}
+                                                max={8}
+                                                step={1}
+                                                onChange={(value) => onSettingChange('bevelSegments', value)}
+                                                resetValue={3}
+                                                onReset={() => onSettingChange('bevelSegments', 3)}
+                                            />
+                                        </>
+                                    )}
+                                </>
+                            )}
+                        </Folder>
                     </Folder>
 
                     {/* Transforms */}
                     <Folder title="🔄 Transforms" defaultCollapsed={true}>
-                        <Folder title="Cylinder Roll" defaultCollapsed={false}>
+                        <Folder title="Surface Mapping" defaultCollapsed={false}>
                             <Select
-                                label="Cylinder Axis"
-                                value={settings.cylinderAxis}
-                                options={{ 'y': 'Y-Axis (Horizontal)', 'x': 'X-Axis (Vertical)' }}
-                                onChange={(value) => onSettingChange('cylinderAxis', value)}
-                                resetValue="y"
-                                onReset={() => onSettingChange('cylinderAxis', 'y')}
-                            />
-                            <Slider
-                                label="Cylinder Curvature"
-                                value={settings.cylinderCurvature}
-                                min={0}
-                                max={1}
-                                step={0.01}
-                                onChange={(value) => onSettingChange('cylinderCurvature', value)}
-                                resetValue={0}
-                                onReset={() => onSettingChange('cylinderCurvature', 0)}
+                                label="Surface"
+                                value={settings.surfaceMapping}
+                                options={{ cylinder: 'Cylinder', sphere: 'Sphere', torus: 'Torus', cone: 'Cone', saddle: 'Saddle' }}
+                                onChange={(value) => onSettingChange('surfaceMapping', value)}
+                                resetValue="cylinder"
+                                onReset={() => onSettingChange('surfaceMapping', 'cylinder')}
                             />
-                            <Slider
-                                label="Cylinder Radius"
-                                value={settings.cylinderRadius}
-                                min={2}
-                                max={20}
-                                step={0.1}
-                                onChange={(value) => onSettingChange('cylinderRadius', value)}
-                                resetValue={8}
-                                onReset={() => onSettingChange('cylinderRadius', 8)}
+                            {settings.surfaceMapping === 'cylinder' && (
+                                <>
+                                    <Select
+                                        label="Cylinder Axis"
+                                        value={settings.cylinderAxis}
+                                        options={{ 'y': 'Y-Axis (Horizontal)', 'x': 'X-Axis (Vertical)' }}
+                                        onChange={(value) => onSettingChange('cylinderAxis', value)}
+                                        resetValue="y"
+                                        onReset={() => onSettingChange('cylinderAxis', 'y')}
+                                    />
+                                    <Slider
+                                        label="Cylinder Curvature"
+                                        value={settings.cylinderCurvature}
+                                        min={0}
+                                        max={1}
+                                        step={0.01}
+                                        onChange={(value) => onSettingChange('cylinderCurvature', value)}
+                                        resetValue={0}
+                                        onReset={() => onSettingChange('cylinderCurvature', 0)}
+                                    />
+                                    <Slider
+                                        label="Cylinder Radius"
+                                        value={settings.cylinderRadius}
+                                        min={2}
+                                        max={20}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('cylinderRadius', value)}
+                                        resetValue={8}
+                                        onReset={() => onSettingChange('cylinderRadius', 8)}
+                                    />
+                                </>
+                            )}
+                            {settings.surfaceMapping === 'sphere' && (
+                                <>
+                                    <Slider
+                                        label="Sphere Curvature"
+                                        value={settings.sphereCurvature}
+                                        min={0}
+                                        max={1}
+                                        step={0.01}
+                                        onChange={(value) => onSettingChange('sphereCurvature', value)}
+                                        resetValue={0}
+                                        onReset={() => onSettingChange('sphereCurvature', 0)}
+                                    />
+                                    <Slider
+                                        label="Sphere Radius"
+                                        value={settings.sphereRadius}
+                                        min={2}
+                                        max={30}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('sphereRadius', value)}
+                                        resetValue={8}
+                                        onReset={() => onSettingChange('sphereRadius', 8)}
+                                    />
+                                </>
+                            )}
+                            {settings.surfaceMapping === 'torus' && (
+                                <>
+                                    <Slider
+                                        label="Torus Curvature"
+                                        value={settings.torusCurvature}
+                                        min={0}
+                                        max={1}
+                                        step={0.01}
+                                        onChange={(value) => onSettingChange('torusCurvature', value)}
+                                        resetValue={0}
+                                        onReset={() => onSettingChange('torusCurvature', 0)}
+                                    />
+                                    <Slider
+                                        label="Major Radius"
+                                        value={settings.torusMajorRadius}
+                                        min={2}
+                                        max={30}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('torusMajorRadius', value)}
+                                        resetValue={8}
+                                        onReset={() => onSettingChange('torusMajorRadius', 8)}
+                                    />
+                                    <Slider
+                                        label="Tube Radius"
+                                        value={settings.torusMinorRadius}
+                                        min={0.5}
+                                        max={15}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('torusMinorRadius', value)}
+                                        resetValue={3}
+                                        onReset={() => onSettingChange('torusMinorRadius', 3)}
+                                    />
+                                </>
+                            )}
+                            {settings.surfaceMapping === 'cone' && (
+                                <>
+                                    <Slider
+                                        label="Cone Curvature"
+                                        value={settings.coneCurvature}
+                                        min={0}
+                                        max={1}
+                                        step={0.01}
+                                        onChange={(value) => onSettingChange('coneCurvature', value)}
+                                        resetValue={0}
+                                        onReset={() => onSettingChange('coneCurvature', 0)}
+                                    />
+                                    <Slider
+                                        label="Base Radius"
+                                        value={settings.coneRadius}
+                                        min={2}
+                                        max={30}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('coneRadius', value)}
+                                        resetValue={8}
+                                        onReset={() => onSettingChange('coneRadius', 8)}
+                                    />
+                                    <Slider
+                                        label="Cone Angle"
+                                        value={settings.coneAngle}
+                                        min={0}
+                                        max={80}
+                                        step={1}
+                                        onChange={(value) => onSettingChange('coneAngle', value)}
+                                        resetValue={30}
+                                        onReset={() => onSettingChange('coneAngle', 30)}
+                                    />
+                                </>
+                            )}
+                            {settings.surfaceMapping === 'saddle' && (
+                                <>
+                                    <Slider
+                                        label="Saddle Curvature"
+                                        value={settings.saddleCurvature}
+                                        min={0}
+                                        max={1}
+                                        step={0.01}
+                                        onChange={(value) => onSettingChange('saddleCurvature', value)}
+                                        resetValue={0}
+                                        onReset={() => onSettingChange('saddleCurvature', 0)}
+                                    />
+                                    <Slider
+                                        label="Saddle Radius"
+                                        value={settings.saddleRadius}
+                                        min={2}
+                                        max={50}
+                                        step={0.1}
+                                        onChange={(value) => onSettingChange('saddleRadius', value)}
+                                        resetValue={10}
+                                        onReset={() => onSettingChange('saddleRadius', 10)}
+                                    />
+                                </>
+                            )}
+                        </Folder>
+
+                        <Folder title="Deformers" defaultCollapsed={true}>
+                            <DeformerStack
+                                deformers={settings.deformers}
+                                onChange={(value) => onSettingChange('deformers', value)}
                             />
                         </Folder>
 
@@ -1060,139 +2456,114 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                             </div>
                         </div>
 
-                        <Folder title="Color Group 1" defaultCollapsed={false}>
-                            <Slider
-                                label="Frequency"
-                                value={settings.frequency1}
-                                min={0}
-                                max={5}
-                                step={0.1}
-                                onChange={(value) => onSettingChange('frequency1', value)}
-                                resetValue={1}
-                                onReset={() => onSettingChange('frequency1', 1)}
-                            />
-                            <Toggle
-                                label="Sync Colors"
-                                value={settings.syncColors1}
-                                onChange={(value) => onSettingChange('syncColors1', value)}
-                                resetValue={false}
-                                onReset={() => onSettingChange('syncColors1', false)}
-                            />
-                            <ColorPicker
-                                label="Fill Color"
-                                value={settings.fill1}
-                                onChange={(value) => onSettingChange('fill1', value)}
-                                resetValue={{ r: 0, g: 122, b: 255, a: 0.8 }}
-                                onReset={() => onSettingChange('fill1', { r: 0, g: 122, b: 255, a: 0.8 })}
-                            />
-                            <ColorPicker
-                                label="Stroke Color"
-                                value={settings.syncColors1 ? settings.fill1 : settings.stroke1}
-                                onChange={(value) => onSettingChange('stroke1', value)}
-                                resetValue={{ r: 0, g: 0, b: 0, a: 1.0 }}
-                                onReset={() => onSettingChange('stroke1', { r: 0, g: 0, b: 0, a: 1.0 })}
-                            />
-                        </Folder>
-
-                        <Folder title="Color Group 2" defaultCollapsed={false}>
-                            <Slider
-                                label="Frequency"
-                                value={settings.frequency2}
-                                min={0}
-                                max={5}
-                                step={0.1}
-                                onChange={(value) => onSettingChange('frequency2', value)}
-                                resetValue={1}
-                                onReset={() => onSettingChange('frequency2', 1)}
-                            />
-                            <Toggle
-                                label="Sync Colors"
-                                value={settings.syncColors2}
-                                onChange={(value) => onSettingChange('syncColors2', value)}
-                                resetValue={false}
-                                onReset={() => onSettingChange('syncColors2', false)}
-                            />
-                            <ColorPicker
-                                label="Fill Color"
-                                value={settings.fill2}
-                                onChange={(value) => onSettingChange('fill2', value)}
-                                resetValue={{ r: 52, g: 199, b: 89, a: 0.8 }}
-                                onReset={() => onSettingChange('fill2', { r: 52, g: 199, b: 89, a: 0.8 })}
-                            />
-                            <ColorPicker
-                                label="Stroke Color"
-                                value={settings.syncColors2 ? settings.fill2 : settings.stroke2}
-                                onChange={(value) => onSettingChange('stroke2', value)}
-                                resetValue={{ r: 0, g: 0, b: 0, a: 1.0 }}
-                                onReset={() => onSettingChange('stroke2', { r: 0, g: 0, b: 0, a: 1.0 })}
-                            />
-                        </Folder>
-
-                        <Folder title="Color Group 3" defaultCollapsed={false}>
-                            <Slider
-                                label="Frequency"
-                                value={settings.frequency3}
-                                min={0}
-                                max={5}
-                                step={0.1}
-                                onChange={(value) => onSettingChange('frequency3', value)}
-                                resetValue={1}
-                                onReset={() => onSettingChange('frequency3', 1)}
-                            />
-                            <Toggle
-                                label="Sync Colors"
-                                value={settings.syncColors3}
-                                onChange={(value) => onSettingChange('syncColors3', value)}
-                                resetValue={false}
-                                onReset={() => onSettingChange('syncColors3', false)}
-                            />
-                            <ColorPicker
-                                label="Fill Color"
-                                value={settings.fill3}
-                                onChange={(value) => onSettingChange('fill3', value)}
-                                resetValue={{ r: 175, g: 82, b: 222, a: 0.8 }}
-                                onReset={() => onSettingChange('fill3', { r: 175, g: 82, b: 222, a: 0.8 })}
-                            />
-                            <ColorPicker
-                                label="Stroke Color"
-                                value={settings.syncColors3 ? settings.fill3 : settings.stroke3}
-                                onChange={(value) => onSettingChange('stroke3', value)}
-                                resetValue={{ r: 0, g: 0, b: 0, a: 1.0 }}
-                                onReset={() => onSettingChange('stroke3', { r: 0, g: 0, b: 0, a: 1.0 })}
+                        <Folder title="Color Pattern" defaultCollapsed={false}>
+                            <Select
+                                label="Pattern"
+                                value={settings.colorStrategy}
+                                options={COLOR_STRATEGY_LABELS}
+                                onChange={(value) => onSettingChange('colorStrategy', value)}
+                                resetValue="random"
+                                onReset={() => onSettingChange('colorStrategy', 'random')}
                             />
+                            {settings.colorStrategy === 'random' && (
+                                <Toggle
+                                    label="Exact Quotas"
+                                    value={settings.exactColorQuotas}
+                                    onChange={(value) => onSettingChange('exactColorQuotas', value)}
+                                    resetValue={false}
+                                    onReset={() => onSettingChange('exactColorQuotas', false)}
+                                />
+                            )}
+                            {['checkerboard', 'rowStripes', 'columnStripes', 'diagonal'].includes(settings.colorStrategy) && (
+                                <Slider
+                                    label="Band Width"
+                                    value={settings.colorBandWidth}
+                                    min={1}
+                                    max={10}
+                                    step={1}
+                                    onChange={(value) => onSettingChange('colorBandWidth', value)}
+                                    resetValue={1}
+                                    onReset={() => onSettingChange('colorBandWidth', 1)}
+                                />
+                            )}
+                            {settings.colorStrategy === 'noise' && (
+                                <Slider
+                                    label="Cluster Scale"
+                                    value={settings.colorNoiseScale}
+                                    min={0.01}
+                                    max={1}
+                                    step={0.01}
+                                    onChange={(value) => onSettingChange('colorNoiseScale', value)}
+                                    resetValue={0.15}
+                                    onReset={() => onSettingChange('colorNoiseScale', 0.15)}
+                                />
+                            )}
                         </Folder>
 
-                        <Folder title="Color Group 4" defaultCollapsed={false}>
-                            <Slider
-                                label="Frequency"
-                                value={settings.frequency4}
-                                min={0}
-                                max={5}
-                                step={0.1}
-                                onChange={(value) => onSettingChange('frequency4', value)}
-                                resetValue={1}
-                                onReset={() => onSettingChange('frequency4', 1)}
-                            />
-                            <Toggle
-                                label="Sync Colors"
-                                value={settings.syncColors4}
-                                onChange={(value) => onSettingChange('syncColors4', value)}
-                                resetValue={false}
-                                onReset={() => onSettingChange('syncColors4', false)}
-                            />
-                            <ColorPicker
-                                label="Fill Color"
-                                value={settings.fill4}
-                                onChange={(value) => onSettingChange('fill4', value)}
-                                resetValue={{ r: 255, g: 159, b: 10, a: 0.8 }}
-                                onReset={() => onSettingChange('fill4', { r: 255, g: 159, b: 10, a: 0.8 })}
-                            />
-                            <ColorPicker
-                                label="Stroke Color"
-                                value={settings.syncColors4 ? settings.fill4 : settings.stroke4}
-                                onChange={(value) => onSettingChange('stroke4', value)}
-                                resetValue={{ r: 0, g: 0, b: 0, a: 1.0 }}
-                                onReset={() => onSettingChange('stroke4', { r: 0, g: 0, b: 0, a: 1.0 })}
+                        {onGenerateHarmony && (
+                            <Folder title="Palette Generator" defaultCollapsed={true}>
+                                <Select
+                                    label="Harmony"
+                                    value={settings.harmonyRule}
+                                    options={HARMONY_RULE_LABELS}
+                                    onChange={(value) => onSettingChange('harmonyRule', value)}
+                                    resetValue="triadic"
+                                    onReset={() => onSettingChange('harmonyRule', 'triadic')}
+                                />
+                                <Slider
+                                    label="Base Hue"
+                                    value={settings.harmonyBaseHue}
+                                    min={0}
+                                    max={359}
+                                    step={1}
+                                    onChange={(value) => onSettingChange('harmonyBaseHue', value)}
+                                    resetValue={220}
+                                    onReset={() => onSettingChange('harmonyBaseHue', 220)}
+                                />
+                                <Slider
+                                    label="Lightness (OKLCH)"
+                                    value={settings.harmonyLightness}
+                                    min={0.2}
+                                    max={0.95}
+                                    step={0.01}
+                                    onChange={(value) => onSettingChange('harmonyLightness', value)}
+                                    resetValue={0.7}
+                                    onReset={() => onSettingChange('harmonyLightness', 0.7)}
+                                />
+                                <Slider
+                                    label="Chroma (OKLCH)"
+                                    value={settings.harmonyChroma}
+                                    min={0}
+                                    max={0.37}
+                                    step={0.01}
+                                    onChange={(value) => onSettingChange('harmonyChroma', value)}
+                                    resetValue={0.15}
+                                    onReset={() => onSettingChange('harmonyChroma', 0.15)}
+                                />
+                                <Button
+                                    label="Apply Harmony"
+                                    onClick={() => onGenerateHarmony(false)}
+                                    variant="secondary"
+                                    size="sm"
+                                    icon={<Sparkles className="w-3 h-3" />}
+                                />
+                            </Folder>
+                        )}
+
+                        <Folder title="Color Groups" defaultCollapsed={false}>
+                            {onOpenPaletteImport && (
+                                <Button
+                                    label="Import Palette"
+                                    onClick={onOpenPaletteImport}
+                                    variant="secondary"
+                                    size="sm"
+                                    icon={<Palette className="w-3 h-3" />}
+                                />
+                            )}
+                            <ColorGroupList
+                                groups={settings.colorGroups}
+                                onChange={(groups) => onSettingChange('colorGroups', groups)}
+                                counts={colorGroupCounts}
                             />
                         </Folder>
                     </Folder>
@@ -1241,6 +2612,24 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                             />
                         </Folder>
                     </Folder>
+
+                    {/* Debug */}
+                    <Folder title="🛠 Debug" defaultCollapsed={true}>
+                        <Toggle
+                            label="Show Render Stats"
+                            value={settings.showRenderStats}
+                            onChange={(value) => onSettingChange('showRenderStats', value)}
+                            resetValue={false}
+                            onReset={() => onSettingChange('showRenderStats', false)}
+                        />
+                        <Toggle
+                            label="Continuous Rendering"
+                            value={settings.continuousRendering}
+                            onChange={(value) => onSettingChange('continuousRendering', value)}
+                            resetValue={false}
+                            onReset={() => onSettingChange('continuousRendering', false)}
+                        />
+                    </Folder>
                 </div>
             </div>
         </>
@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Modal } from '../ui/Modal';
+import { ColorGroup, ColorRGBA } from '../../types';
+import { mapPaletteToGroups, PaletteMapping, parsePaletteText, readPaletteFile } from '../../utils/paletteImport';
+
+interface PaletteImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    groups: ColorGroup[];
+    onApply: (groups: ColorGroup[]) => void;
+}
+
+const MAPPING_LABELS: Record<PaletteMapping, string> = {
+    inOrder: 'In Order',
+    luminance: 'By Luminance (dark → light)',
+    random: 'Random'
+};
+
+const toCss = ({ r, g, b, a }: ColorRGBA) => `rgba(${r}, ${g}, ${b}, ${a})`;
+
+const Swatch: React.FC<{ color: ColorRGBA; title?: string }> = ({ color, title }) => (
+    <span
+        className="inline-block w-6 h-6 rounded border"
+        style={{ backgroundColor: toCss(color), borderColor: 'var(--modal-border)' }}
+        title={title}
+    />
+);
+
+const PaletteImportModal: React.FC<PaletteImportModalProps> = ({
+    isOpen,
+    onClose,
+    groups,
+    onApply
+}) => {
+    const [text, setText] = useState('');
+    const [colors, setColors] = useState<ColorRGBA[]>([]);
+    const [error, setError] = useState('');
+    const [mapping, setMapping] = useState<PaletteMapping>('inOrder');
+    const [seed, setSeed] = useState(0);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setText('');
+            setColors([]);
+            setError('');
+        }
+    }, [isOpen]);
+
+    const handleTextChange = (value: string) => {
+        setText(value);
+        const parsed = parsePaletteText(value);
+        setColors(parsed);
+        setError(value.trim() && parsed.length === 0 ? 'No colors found.' : '');
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // 같은 파일을 다시 선택할 수 있도록 초기화
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const parsed = await readPaletteFile(file);
+            setText('');
+            setColors(parsed);
+            setError(parsed.length === 0 ? `No colors found in ${file.name}.` : '');
+        } catch (err) {
+            console.warn('Failed to read palette file:', err);
+            setColors([]);
+            setError(`Could not read ${file.name}.`);
+        }
+    };
+
+    const preview = mapPaletteToGroups(groups, colors, mapping, seed);
+
+    const handleApply = () => {
+        if (colors.length === 0) return;
+        onApply(preview);
+        onClose();
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Import Palette"
+            maxWidth="w-[28rem]"
+        >
+            <div className="space-y-4">
+                <div>
+                    <label className="block text-sm font-medium mb-2" style={{ color: 'var(--text-heading)' }}>
+                        Paste hex colors, CSS custom properties, a GIMP palette or a coolors URL:
+                    </label>
+                    <textarea
+                        value={text}
+                        onChange={(e) => handleTextChange(e.target.value)}
+                        placeholder={'#264653 #2a9d8f #e9c46a\nhttps://coolors.co/264653-2a9d8f-e9c46a'}
+                        rows={4}
+                        className="w-full input-glass focus:outline-none font-mono text-xs"
+                        style={{ color: 'var(--text-primary)' }}
+                    />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="btn-secondary text-xs py-1 mt-2"
+                    >
+                        Load File (.ase, .gpl, .css, .txt)
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".ase,.gpl,.css,.txt"
+                        onChange={handleFileChange}
+                        className="hidden"
+                    />
+                    {error && (
+                        <p className="text-sm mt-2 font-medium" style={{ color: 'var(--accent-red)' }}>{error}</p>
+                    )}
+                </div>
+
+                {colors.length > 0 && (
+                    <>
+                        <div>
+                            <p className="text-sm font-medium mb-2" style={{ color: 'var(--text-heading)' }}>
+                                Palette ({colors.length} colors)
+                            </p>
+                            <div className="flex flex-wrap gap-1">
+                                {colors.map((color, index) => (
+                                    <Swatch key={index} color={color} />
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <label className="text-sm font-medium" style={{ color: 'var(--text-heading)' }}>Mapping:</label>
+                            <select
+                                value={mapping}
+                                onChange={(e) => setMapping(e.target.value as PaletteMapping)}
+                                className="flex-1 input-glass focus:outline-none text-xs"
+                                style={{ color: 'var(--text-primary)' }}
+                            >
+                                {Object.entries(MAPPING_LABELS).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                            {mapping === 'random' && (
+                                <button
+                                    onClick={() => setSeed(Math.floor(Math.random() * 1000000))}
+                                    className="btn-secondary text-xs py-1"
+                                >
+                                    Shuffle
+                                </button>
+                            )}
+                        </div>
+
+                        <div className="space-y-1">
+                            <p className="text-sm font-medium" style={{ color: 'var(--text-heading)' }}>Preview (fill / stroke)</p>
+                            {preview.map((group, index) => (
+                                <div key={group.id} className="flex items-center gap-2 text-xs">
+                                    <span className="w-20">Group {index + 1}</span>
+                                    <Swatch color={group.fill} title="Fill" />
+                                    <Swatch color={group.stroke} title="Stroke" />
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                {/* Action Buttons */}
+                <div className="flex gap-3 justify-end">
+                    <button
+                        onClick={onClose}
+                        className="btn-secondary"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={colors.length === 0}
+                        className="btn-primary disabled:opacity-50"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default PaletteImportModal;
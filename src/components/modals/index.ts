@@ -2,3 +2,4 @@ export { default as SaveProjectModal } from './SaveProjectModal';
 export { default as DeleteConfirmModal } from './DeleteConfirmModal';
 export { default as OverwriteConfirmModal } from './OverwriteConfirmModal';
 export { CaptureListModal } from './CaptureListModal';
+export { default as PaletteImportModal } from './PaletteImportModal';
@@ -0,0 +1,32 @@
+import React from 'react';
+import { RenderStats } from '../../hooks/useRenderStats';
+
+interface RenderStatsOverlayProps {
+    stats: RenderStats | null;
+}
+
+// renderer.info 기반 GPU 자원/그리기 통계 (디버그용)
+export const RenderStatsOverlay: React.FC<RenderStatsOverlayProps> = ({ stats }) => {
+    if (!stats) return null;
+
+    const rows: [string, number][] = [
+        ['Draw calls', stats.calls],
+        ['Triangles', stats.triangles],
+        ['Geometries', stats.geometries],
+        ['Textures', stats.textures],
+        ['Programs', stats.programs],
+        ['Cached geometries', stats.cachedGeometries],
+        ['Cached materials', stats.cachedMaterials],
+    ];
+
+    return (
+        <div className="absolute bottom-4 right-4 z-15 glass-strong px-3 py-2 rounded-xl shadow-lg font-mono text-xs pointer-events-none animate-fade-in">
+            {rows.map(([label, value]) => (
+                <div key={label} className="flex justify-between gap-4">
+                    <span className="opacity-70">{label}</span>
+                    <span>{value.toLocaleString()}</span>
+                </div>
+            ))}
+        </div>
+    );
+};
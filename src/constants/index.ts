@@ -27,6 +27,10 @@ export const RENDER_CONSTANTS = {
   FAR_PLANE: 1000,
   DEFAULT_CAMERA_POSITION: { x: 0, y: 0, z: 15 },
   Z_FIGHTING_OFFSET: 0.001,
+  AMBIENT_LIGHT_INTENSITY: 1.2,
+  DIRECTIONAL_LIGHT_INTENSITY: 2,
+  // 초점 핸들 등 편집용 오버레이 레이어 (화면 카메라만 켜고, 캡처/미리보기 렌더에서는 끔)
+  EDITOR_LAYER: 1,
 } as const;
 
 // 카메라 기본값
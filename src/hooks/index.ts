@@ -4,3 +4,5 @@ export { useProjectManager } from './useProjectManager';
 export { useAnimations } from './useAnimations';
 export { useCapture } from './useCapture';
 export { useSmoothCameraControls } from './useSmoothCameraControls';
+export { useFocalPointHandle } from './useFocalPointHandle';
+export { useRenderStats } from './useRenderStats';
@@ -1,23 +1,28 @@
 import { useState, useRef, useCallback } from 'react';
-import { CircleData, CircleGridConfig, ShapeType } from '../types';
-import { updateShapeGeometry } from '../utils/circleGeometry';
+import { ShapeType } from '../types';
+import { RenderScheduler } from '../utils/renderScheduler';
 import { ANIMATION_CONSTANTS } from '../constants';
 
 interface UseAnimationsOptions {
   settings: any;
-  circlesRef: React.MutableRefObject<CircleData[]>;
   handleSettingChange: (key: string, value: any) => void;
+  renderScheduler: RenderScheduler;
 }
 
 export const useAnimations = ({
   settings,
-  circlesRef,
   handleSettingChange,
+  renderScheduler,
 }: UseAnimationsOptions) => {
   // 애니메이션 상태
   const [isRotationAnimating, setIsRotationAnimating] = useState(false);
-  const rotationAnimationRef = useRef<number>();
+  // 회전 애니메이션의 프레임 콜백 해제 함수
+  const rotationAnimationRef = useRef<() => void>();
   const lastShapeChangeAngleRef = useRef<number>(0);
+  // 원으로 전환되기 전의 도형 (다시 되돌릴 때 사용)
+  const alternateShapeTypeRef = useRef<ShapeType>(
+    settings.shapeType !== ShapeType.Circle ? settings.shapeType : ShapeType.Rectangle
+  );
 
   // 도형 변경 감지 함수
   const checkAndChangeShape = useCallback((rotationY: number) => {
@@ -29,48 +34,25 @@ export const useAnimations = ({
     const isNear270 = Math.abs(normalizedAngle - ANIMATION_CONSTANTS.SHAPE_CHANGE_ANGLES.SECOND) < threshold;
     
     if ((isNear90 || isNear270) && Math.abs(normalizedAngle - lastShapeChangeAngleRef.current) > threshold * 2) {
-      // 현재 도형 타입과 반대로 변경
+      // 원과 사용자가 선택한 다른 도형(사각형, 다각형 등) 사이를 전환
       const currentShapeType = settings.shapeType;
-      const newShapeType = currentShapeType === ShapeType.Circle ? ShapeType.Rectangle : ShapeType.Circle;
-      
-      // 각 도형을 개별적으로 업데이트
-      const config: CircleGridConfig = {
-        rows: settings.rows,
-        cols: settings.cols,
-        shapeType: settings.shapeType,
-        circleRadius: settings.circleRadius,
-        rectangleWidth: settings.rectangleWidth,
-        rectangleHeight: settings.rectangleHeight,
-        rowSpacing: settings.rowSpacing,
-        colSpacing: settings.colSpacing
-      };
-      
-      circlesRef.current.forEach(circle => {
-        if (circle.currentShapeType === currentShapeType) {
-          updateShapeGeometry(
-            circle,
-            config,
-            newShapeType,
-            settings.borderThickness,
-            settings.enableWidthScaling,
-            settings.widthScaleFactor
-          );
-        }
-      });
+      if (currentShapeType !== ShapeType.Circle) {
+        alternateShapeTypeRef.current = currentShapeType;
+      }
+      const newShapeType = currentShapeType === ShapeType.Circle ? alternateShapeTypeRef.current : ShapeType.Circle;
       
-      // 전역 설정도 업데이트
+      // 도형 설정을 바꾸면 인스턴스 메시가 새 도형으로 다시 생성됨
       handleSettingChange('shapeType', newShapeType);
       lastShapeChangeAngleRef.current = normalizedAngle;
     }
-  }, [settings, handleSettingChange, circlesRef]);
+  }, [settings, handleSettingChange]);
 
   // Y축 회전 애니메이션 함수
   const animateRotationY = useCallback(() => {
     if (isRotationAnimating) {
       // 이미 애니메이션 중이면 중지
-      if (rotationAnimationRef.current) {
-        cancelAnimationFrame(rotationAnimationRef.current);
-      }
+      rotationAnimationRef.current?.();
+      rotationAnimationRef.current = undefined;
       setIsRotationAnimating(false);
       return;
     }
@@ -82,6 +64,7 @@ export const useAnimations = ({
     const duration = baseDuration / settings.animationSpeed;
     const startTime = Date.now();
 
+    // 공용 렌더 스케줄러의 프레임마다 진행 (끝날 때까지 연속 렌더링)
     const animate = () => {
       const elapsed = Date.now() - startTime;
       const progress = Math.min(elapsed / duration, 1);
@@ -99,20 +82,22 @@ export const useAnimations = ({
       handleSettingChange('rotationY', currentRotation);
       
       if (progress < 1) {
-        rotationAnimationRef.current = requestAnimationFrame(animate);
-      } else {
-        setIsRotationAnimating(false);
+        return true;
       }
+
+      rotationAnimationRef.current?.();
+      rotationAnimationRef.current = undefined;
+      setIsRotationAnimating(false);
+      return false;
     };
-    
-    animate();
-  }, [settings.rotationY, settings.animationSpeed, isRotationAnimating, handleSettingChange, checkAndChangeShape]);
+
+    rotationAnimationRef.current = renderScheduler.addFrameCallback(animate);
+  }, [settings.rotationY, settings.animationSpeed, isRotationAnimating, handleSettingChange, checkAndChangeShape, renderScheduler]);
 
   // 애니메이션 정리 함수
   const cleanupAnimations = useCallback(() => {
-    if (rotationAnimationRef.current) {
-      cancelAnimationFrame(rotationAnimationRef.current);
-    }
+    rotationAnimationRef.current?.();
+    rotationAnimationRef.current = undefined;
   }, []);
 
   return {
@@ -1,12 +1,14 @@
 import { useCallback } from 'react';
 import * as THREE from 'three';
-import { STORAGE_KEYS, PROJECT_CONSTANTS } from '../constants';
+import { STORAGE_KEYS, PROJECT_CONSTANTS, RENDER_CONSTANTS } from '../constants';
+import { writeStorage } from '../utils/storage';
 
 interface UseCaptureOptions {
   rendererRef: React.MutableRefObject<THREE.WebGLRenderer | undefined>;
   sceneRef: React.MutableRefObject<THREE.Scene | undefined>;
   cameraRef: React.MutableRefObject<THREE.PerspectiveCamera | undefined>;
   settings: any;
+  setMaxQuality?: (enabled: boolean) => void;
 }
 
 export const useCapture = ({
@@ -14,6 +16,7 @@ export const useCapture = ({
   sceneRef,
   cameraRef,
   settings,
+  setMaxQuality,
 }: UseCaptureOptions) => {
 
   // 캡처 기능
@@ -26,10 +29,12 @@ export const useCapture = ({
       // 현재 렌더러의 캔버스를 캡처
       const canvas = rendererRef.current.domElement;
 
-      // 렌더러를 한 번 더 렌더링하여 최신 상태 캡처
+      // 최대 세분화로 한 번 더 렌더링하여 최신 상태 캡처 (초점 핸들 등 편집용 오버레이 제외)
+      setMaxQuality?.(true);
+      cameraRef.current.layers.disable(RENDER_CONSTANTS.EDITOR_LAYER);
       rendererRef.current.render(sceneRef.current, cameraRef.current);
 
-      // 캔버스를 blob으로 변환
+      // 캔버스를 blob으로 변환 (toBlob 호출 시점의 화면이 저장되므로 호출 직후 품질 복원)
       return new Promise<{ success: boolean; error?: string }>((resolve) => {
         canvas.toBlob(async (blob) => {
           if (!blob) {
@@ -147,7 +152,11 @@ export const useCapture = ({
               }
 
               // 로컬스토리지에 저장
-              localStorage.setItem(STORAGE_KEYS.CAPTURES, JSON.stringify(captures));
+              try {
+                writeStorage(STORAGE_KEYS.CAPTURES, captures);
+              } catch (storageError) {
+                console.error('Failed to save capture to history:', storageError);
+              }
             };
             reader.readAsDataURL(blob);
 
@@ -166,11 +175,15 @@ export const useCapture = ({
             resolve({ success: true });
           }
         }, 'image/png');
+        cameraRef.current?.layers.enable(RENDER_CONSTANTS.EDITOR_LAYER);
+        setMaxQuality?.(false);
       });
     } catch (error) {
+      cameraRef.current?.layers.enable(RENDER_CONSTANTS.EDITOR_LAYER);
+      setMaxQuality?.(false);
       return { success: false, error: 'Failed to capture screenshot' };
     }
-  }, [rendererRef, sceneRef, cameraRef, settings]);
+  }, [rendererRef, sceneRef, cameraRef, settings, setMaxQuality]);
 
   return {
     handleCapture,
@@ -0,0 +1,242 @@
+import { useRef, useEffect } from 'react';
+import * as THREE from 'three';
+import { TrackballControls, OrbitControls } from 'three-stdlib';
+import { AppSettings } from '../types';
+import { RenderScheduler } from '../utils/renderScheduler';
+import { RENDER_CONSTANTS } from '../constants';
+
+type FocalHandleSettings = Pick<
+  AppSettings,
+  | 'enableFocalScaling'
+  | 'showFocalHandle'
+  | 'focalPointX'
+  | 'focalPointY'
+>;
+
+interface UseFocalPointHandleOptions {
+  sceneRef: React.MutableRefObject<THREE.Scene | undefined>;
+  cameraRef: React.MutableRefObject<THREE.PerspectiveCamera | undefined>;
+  rendererRef: React.MutableRefObject<THREE.WebGLRenderer | undefined>;
+  controlsRef: React.MutableRefObject<TrackballControls | OrbitControls | null>;
+  settings: FocalHandleSettings;
+  handleSettingChange: (key: string, value: number) => void;
+  renderScheduler: RenderScheduler;
+  // 격자 평면 좌표를 셀과 같은 곡면/오브젝트 변환을 거친 월드 위치로 옮기는 함수
+  mapGridPoint: (x: number, y: number, target?: THREE.Vector3) => THREE.Vector3;
+  isVisible?: boolean;
+}
+
+// 초점 핸들 크기 (월드 단위)
+const HANDLE_RADIUS = 0.5;
+
+const createHandleMesh = (): THREE.Group => {
+  const handle = new THREE.Group();
+  const material = new THREE.MeshBasicMaterial({
+    color: '#FF9500',
+    side: THREE.DoubleSide,
+    depthTest: false,
+    transparent: true,
+    opacity: 0.9
+  });
+
+  const ring = new THREE.Mesh(new THREE.RingGeometry(HANDLE_RADIUS * 0.7, HANDLE_RADIUS, 32), material);
+  const dot = new THREE.Mesh(new THREE.CircleGeometry(HANDLE_RADIUS * 0.2, 16), material);
+  handle.add(ring, dot);
+  // 도형들 위에 항상 보이도록
+  handle.renderOrder = 999;
+  ring.renderOrder = 999;
+  dot.renderOrder = 999;
+  // 편집용 레이어에만 두어 캡처/미리보기 이미지에는 나오지 않도록
+  handle.traverse(object => object.layers.set(RENDER_CONSTANTS.EDITOR_LAYER));
+  return handle;
+};
+
+// 포인터 위치에서 격자 평면 좌표를 역산할 때의 반복 횟수와 수치 미분 간격
+const SOLVE_ITERATIONS = 8;
+const SOLVE_STEP = 0.01;
+
+const roundCoordinate = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * 곡면 변환은 역함수가 없으므로, 변환 후 화면 위치가 포인터와 겹치는 격자 평면 좌표를
+ * 현재 초점에서 출발하는 가우스-뉴턴 반복으로 찾습니다 (수렴하지 못하면 start를 그대로 반환).
+ */
+const solveGridPoint = (
+  mapGridPoint: UseFocalPointHandleOptions['mapGridPoint'],
+  camera: THREE.Camera,
+  pointer: THREE.Vector2,
+  start: { x: number; y: number }
+): { x: number; y: number } => {
+  const projected = new THREE.Vector3();
+  const residualAt = (x: number, y: number) => {
+    mapGridPoint(x, y, projected).project(camera);
+    return { x: projected.x - pointer.x, y: projected.y - pointer.y };
+  };
+
+  let { x, y } = start;
+  let residual = residualAt(x, y);
+
+  for (let i = 0; i < SOLVE_ITERATIONS; i++) {
+    const dx = residualAt(x + SOLVE_STEP, y);
+    const dy = residualAt(x, y + SOLVE_STEP);
+    const a = (dx.x - residual.x) / SOLVE_STEP;
+    const b = (dy.x - residual.x) / SOLVE_STEP;
+    const c = (dx.y - residual.y) / SOLVE_STEP;
+    const d = (dy.y - residual.y) / SOLVE_STEP;
+    const det = a * d - b * c;
+    if (Math.abs(det) < 1e-12) break;
+
+    let stepX = (d * residual.x - b * residual.y) / det;
+    let stepY = (a * residual.y - c * residual.x) / det;
+
+    // 오차가 줄어들 때까지 이동량을 절반씩 줄임 (곡면이 접히는 곳에서 튀지 않도록)
+    let accepted = false;
+    for (let halving = 0; halving < 6 && !accepted; halving++) {
+      const next = residualAt(x - stepX, y - stepY);
+      if (Math.hypot(next.x, next.y) < Math.hypot(residual.x, residual.y)) {
+        x -= stepX;
+        y -= stepY;
+        residual = next;
+        accepted = true;
+      }
+      stepX /= 2;
+      stepY /= 2;
+    }
+    if (!accepted) break;
+  }
+
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : start;
+};
+
+/**
+ * 초점 스케일링의 초점을 캔버스에서 드래그해 옮기는 핸들을 관리합니다.
+ * 초점은 평평한 격자 평면 기준 좌표로 저장되고, 핸들은 셀과 같은 곡면/오브젝트 변환을 거친 위치에 놓입니다.
+ * 드래그 중에는 프레임마다 최대 한 번 설정에 반영해 셀 크기가 바로 따라오도록 합니다.
+ */
+export const useFocalPointHandle = ({
+  sceneRef,
+  cameraRef,
+  rendererRef,
+  controlsRef,
+  settings,
+  handleSettingChange,
+  renderScheduler,
+  mapGridPoint,
+  isVisible = true,
+}: UseFocalPointHandleOptions) => {
+  const handleRef = useRef<THREE.Group>();
+  const isDraggingRef = useRef(false);
+  // 드래그 중인 초점 (격자 평면 좌표)과 최신 변환 함수/설정 (리스너를 다시 등록하지 않도록 ref로 보관)
+  const dragPointRef = useRef({ x: 0, y: 0 });
+  const mapGridPointRef = useRef(mapGridPoint);
+  mapGridPointRef.current = mapGridPoint;
+  const focalPointRef = useRef({ x: settings.focalPointX, y: settings.focalPointY });
+  focalPointRef.current = { x: settings.focalPointX, y: settings.focalPointY };
+
+  if (!handleRef.current) {
+    handleRef.current = createHandleMesh();
+  }
+
+  const isActive = settings.enableFocalScaling && settings.showFocalHandle && isVisible;
+
+  // 씬이 다시 생성될 수 있으므로 렌더마다 핸들이 현재 씬에 있는지 확인
+  useEffect(() => {
+    const handle = handleRef.current!;
+    const scene = sceneRef.current;
+    if (scene && handle.parent !== scene) {
+      handle.removeFromParent();
+      scene.add(handle);
+    }
+
+    handle.visible = isActive;
+    const { x, y } = isDraggingRef.current ? dragPointRef.current : focalPointRef.current;
+    mapGridPoint(x, y, handle.position);
+  });
+
+  // 포인터 드래그 처리 (카메라 컨트롤보다 먼저 받기 위해 capture 단계에서 처리)
+  useEffect(() => {
+    if (!isActive) return;
+
+    const raycaster = new THREE.Raycaster();
+    raycaster.layers.set(RENDER_CONSTANTS.EDITOR_LAYER);
+    const pointer = new THREE.Vector2();
+    // 드래그 중 바뀐 초점을 프레임마다 최대 한 번만 설정에 반영
+    let hasPendingChange = false;
+    const removeFrameCallback = renderScheduler.addFrameCallback(() => {
+      if (hasPendingChange) {
+        hasPendingChange = false;
+        handleSettingChange('focalPointX', roundCoordinate(dragPointRef.current.x));
+        handleSettingChange('focalPointY', roundCoordinate(dragPointRef.current.y));
+      }
+      return false;
+    });
+
+    const updateRay = (event: PointerEvent): boolean => {
+      const canvas = rendererRef.current?.domElement;
+      const camera = cameraRef.current;
+      if (!canvas || !camera) return false;
+
+      const rect = canvas.getBoundingClientRect();
+      pointer.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+      return true;
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.target !== rendererRef.current?.domElement || !updateRay(event)) return;
+      if (raycaster.intersectObject(handleRef.current!, true).length === 0) return;
+
+      event.stopPropagation();
+      event.preventDefault();
+      dragPointRef.current = { ...focalPointRef.current };
+      isDraggingRef.current = true;
+      if (controlsRef.current) controlsRef.current.enabled = false;
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!isDraggingRef.current || !updateRay(event)) return;
+      dragPointRef.current = solveGridPoint(mapGridPointRef.current, cameraRef.current!, pointer, dragPointRef.current);
+      mapGridPointRef.current(dragPointRef.current.x, dragPointRef.current.y, handleRef.current!.position);
+      hasPendingChange = true;
+      renderScheduler.requestRender();
+    };
+
+    const handlePointerUp = () => {
+      if (!isDraggingRef.current) return;
+      isDraggingRef.current = false;
+      if (controlsRef.current) controlsRef.current.enabled = true;
+
+      hasPendingChange = false;
+      handleSettingChange('focalPointX', roundCoordinate(dragPointRef.current.x));
+      handleSettingChange('focalPointY', roundCoordinate(dragPointRef.current.y));
+    };
+
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+
+    return () => {
+      removeFrameCallback();
+      window.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [isActive, sceneRef, cameraRef, rendererRef, controlsRef, handleSettingChange, renderScheduler]);
+
+  // 언마운트 시 핸들 정리
+  useEffect(() => {
+    const handle = handleRef.current!;
+    return () => {
+      handle.removeFromParent();
+      handle.traverse(object => {
+        if (object instanceof THREE.Mesh) {
+          object.geometry.dispose();
+          (object.material as THREE.Material).dispose();
+        }
+      });
+    };
+  }, []);
+};
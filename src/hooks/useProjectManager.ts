@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
-import { STORAGE_KEYS, UI_CONSTANTS } from '../constants';
+import { STORAGE_KEYS, UI_CONSTANTS, RENDER_CONSTANTS } from '../constants';
+import { writeStorage } from '../utils/storage';
 
 interface Project {
   name: string;
@@ -15,6 +16,7 @@ interface UseProjectManagerOptions {
   rendererRef?: React.MutableRefObject<THREE.WebGLRenderer | undefined>;
   sceneRef?: React.MutableRefObject<THREE.Scene | undefined>;
   cameraRef?: React.MutableRefObject<THREE.PerspectiveCamera | undefined>;
+  setMaxQuality?: (enabled: boolean) => void;
 }
 
 export const useProjectManager = ({
@@ -24,6 +26,7 @@ export const useProjectManager = ({
   rendererRef,
   sceneRef,
   cameraRef,
+  setMaxQuality,
 }: UseProjectManagerOptions) => {
   const [activeProject, setActiveProject] = useState<string | null>(null);
   const [isLoadingProject, setIsLoadingProject] = useState(false);
@@ -41,12 +44,19 @@ export const useProjectManager = ({
         const previewSize = UI_CONSTANTS.PREVIEW_SIZE;
         rendererRef.current.setSize(previewSize, previewSize);
 
-        // 렌더링
-        rendererRef.current.render(sceneRef.current, cameraRef.current);
-
-        // 캔버스를 이미지로 변환
-        const canvas = rendererRef.current.domElement;
-        previewImage = canvas.toDataURL('image/png');
+        // 최대 세분화로 렌더링 (초점 핸들 등 편집용 오버레이 제외)
+        setMaxQuality?.(true);
+        cameraRef.current.layers.disable(RENDER_CONSTANTS.EDITOR_LAYER);
+        try {
+          rendererRef.current.render(sceneRef.current, cameraRef.current);
+
+          // 캔버스를 이미지로 변환
+          const canvas = rendererRef.current.domElement;
+          previewImage = canvas.toDataURL('image/png');
+        } finally {
+          cameraRef.current.layers.enable(RENDER_CONSTANTS.EDITOR_LAYER);
+          setMaxQuality?.(false);
+        }
 
         // 원래 크기로 복원
         rendererRef.current.setSize(originalSize.x, originalSize.y);
@@ -74,11 +84,11 @@ export const useProjectManager = ({
       projects.push(project);
     }
 
-    localStorage.setItem(STORAGE_KEYS.PROJECTS, JSON.stringify(projects));
+    writeStorage(STORAGE_KEYS.PROJECTS, projects);
     setActiveProject(name);
 
     return projects;
-  }, [getCurrentSettings, rendererRef, sceneRef, cameraRef]);
+  }, [getCurrentSettings, rendererRef, sceneRef, cameraRef, setMaxQuality]);
 
   // 프로젝트 로드 후 씬 업데이트를 위한 함수
   const loadProjectAndUpdate = useCallback((name: string) => {
@@ -123,7 +133,7 @@ export const useProjectManager = ({
 
     const projects: Project[] = JSON.parse(savedProjects);
     const updatedProjects = projects.filter(p => p.name !== name);
-    localStorage.setItem(STORAGE_KEYS.PROJECTS, JSON.stringify(updatedProjects));
+    writeStorage(STORAGE_KEYS.PROJECTS, updatedProjects);
     
     // 삭제된 프로젝트가 활성 프로젝트였다면 활성 프로젝트 해제
     if (activeProject === name) {
@@ -159,7 +169,7 @@ export const useProjectManager = ({
       timestamp: Date.now() // 타임스탬프 업데이트
     };
 
-    localStorage.setItem(STORAGE_KEYS.PROJECTS, JSON.stringify(updatedProjects));
+    writeStorage(STORAGE_KEYS.PROJECTS, updatedProjects);
     
     // 활성 프로젝트가 변경된 프로젝트였다면 활성 프로젝트도 업데이트
     if (activeProject === oldName) {
@@ -194,7 +204,8 @@ export const useProjectManager = ({
 
   // URL 공유 기능
   const shareProject = useCallback(async (projectSettings: Record<string, unknown>) => {
-    const projectData = encodeURIComponent(JSON.stringify(projectSettings));
+    // 하프톤 이미지는 URL 길이 제한을 넘기므로 공유 링크에서 제외 (받는 쪽의 기존 이미지도 비움)
+    const projectData = encodeURIComponent(JSON.stringify({ ...projectSettings, halftoneImage: '' }));
     const shareURL = `${window.location.origin}${window.location.pathname}?project=${projectData}`;
 
     try {
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import * as THREE from 'three';
+import { geometryCache, materialCache } from '../utils/resourceCache';
+
+export interface RenderStats {
+  geometries: number;
+  textures: number;
+  programs: number;
+  calls: number;
+  triangles: number;
+  cachedGeometries: number;
+  cachedMaterials: number;
+}
+
+// 통계 갱신 주기 (ms)
+const STATS_INTERVAL = 500;
+
+/**
+ * 디버그용으로 renderer.info의 GPU 자원 수와 마지막 프레임의 그리기 통계를 주기적으로 읽습니다.
+ * 비활성화되어 있으면 폴링하지 않고 null을 반환합니다.
+ */
+export const useRenderStats = (
+  rendererRef: React.MutableRefObject<THREE.WebGLRenderer | undefined>,
+  isEnabled: boolean
+): RenderStats | null => {
+  const [stats, setStats] = useState<RenderStats | null>(null);
+
+  useEffect(() => {
+    if (!isEnabled) {
+      setStats(null);
+      return;
+    }
+
+    const readStats = () => {
+      const renderer = rendererRef.current;
+      if (!renderer) return;
+
+      const { memory, render, programs } = renderer.info;
+      setStats({
+        geometries: memory.geometries,
+        textures: memory.textures,
+        programs: programs?.length ?? 0,
+        calls: render.calls,
+        triangles: render.triangles,
+        cachedGeometries: geometryCache.size(),
+        cachedMaterials: materialCache.size(),
+      });
+    };
+
+    readStats();
+    const intervalId = setInterval(readStats, STATS_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [rendererRef, isEnabled]);
+
+  return stats;
+};
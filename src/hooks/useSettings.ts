@@ -1,6 +1,9 @@
 import { useState, useCallback, useRef } from 'react';
-import { ShapeType } from '../types';
+import { Deformer, ShapeType } from '../types';
 import { STORAGE_KEYS } from '../constants';
+import { DEFAULT_CURVE_POINTS } from '../utils/scaleCurves';
+import { createDefaultColorGroups, migrateColorGroups } from '../utils/colorGroups';
+import { StorageFullError, writeStorage } from '../utils/storage';
 
 // 기본 설정값
 const defaultSettings = {
@@ -9,18 +12,73 @@ const defaultSettings = {
   cols: 12,
   rowSpacing: 2,
   colSpacing: 2,
+  gridLayout: 'rectangular' as const,
+  brickOffset: 0.5,
+  spiralCount: 200,
+  spiralAngle: 137.508,
+  orientToRadius: false,
+  scatterMinDistance: 1.8,
+  jitterPosition: 0,
+  jitterRotation: 0,
+  jitterScale: 0,
+  jitterSeed: Math.floor(Math.random() * 1000000),
+  shapeSeed: Math.floor(Math.random() * 1000000),
   shapeType: ShapeType.Circle,
   circleRadius: 0.8,
   rectangleWidth: 1.6,
   rectangleHeight: 1.2,
+  polygonSides: 6,
+  polygonRotation: 0,
+  cornerRadius: 0.3,
+  customSvg: '',
+  adaptiveTessellation: true,
   enableWidthScaling: false,
   widthScaleFactor: 2.0,
+  widthScaleCurve: 'linear' as const,
+  widthScaleWaves: 1,
+  widthScalePoints: DEFAULT_CURVE_POINTS,
+  enableHeightScaling: false,
+  heightScaleFactor: 2.0,
+  heightScaleCurve: 'linear' as const,
+  heightScaleWaves: 1,
+  heightScalePoints: DEFAULT_CURVE_POINTS,
+  enableRadiusScaling: false,
+  radiusScaleFactor: 2.0,
+  radiusScaleAxis: 'columns' as const,
+  radiusScaleCurve: 'linear' as const,
+  radiusScaleWaves: 1,
+  radiusScalePoints: DEFAULT_CURVE_POINTS,
+  enableFocalScaling: false,
+  focalPointX: 0,
+  focalPointY: 0,
+  focalRadius: 8,
+  focalScaleFactor: 2.0,
+  focalScaleCurve: 'easeInOut' as const,
+  focalScaleWaves: 1,
+  focalScalePoints: DEFAULT_CURVE_POINTS,
+  showFocalHandle: true,
   borderThickness: 0.15,
+  extrusionEnabled: false,
+  bevelEnabled: false,
+  bevelSize: 0.05,
+  bevelSegments: 3,
 
   // 변환 설정
+  surfaceMapping: 'cylinder' as const,
   cylinderAxis: 'y' as const,
   cylinderCurvature: 0,
   cylinderRadius: 8,
+  sphereCurvature: 0,
+  sphereRadius: 8,
+  torusCurvature: 0,
+  torusMajorRadius: 8,
+  torusMinorRadius: 3,
+  coneCurvature: 0,
+  coneRadius: 8,
+  coneAngle: 30,
+  saddleCurvature: 0,
+  saddleRadius: 10,
+  deformers: [] as Deformer[],
   objectPositionX: 0,
   objectPositionY: 0,
   objectPositionZ: 0,
@@ -28,24 +86,24 @@ const defaultSettings = {
   rotationY: 0,
   rotationZ: 0,
 
+  // 하프톤 설정
+  halftoneEnabled: false,
+  halftoneImage: '',
+  halftoneMinScale: 0.1,
+  halftoneInvert: false,
+  halftoneColorMode: 'none' as const,
+
   // 외관 - 라이트 테마 색상
   backgroundColor: '#f5f7fa',
-  frequency1: 1,
-  syncColors1: false,
-  fill1: { r: 0, g: 122, b: 255, a: 0.8 },
-  stroke1: { r: 0, g: 0, b: 0, a: 1.0 },
-  frequency2: 1,
-  syncColors2: false,
-  fill2: { r: 52, g: 199, b: 89, a: 0.8 },
-  stroke2: { r: 0, g: 0, b: 0, a: 1.0 },
-  frequency3: 1,
-  syncColors3: false,
-  fill3: { r: 175, g: 82, b: 222, a: 0.8 },
-  stroke3: { r: 0, g: 0, b: 0, a: 1.0 },
-  frequency4: 1,
-  syncColors4: false,
-  fill4: { r: 255, g: 159, b: 10, a: 0.8 },
-  stroke4: { r: 0, g: 0, b: 0, a: 1.0 },
+  colorGroups: createDefaultColorGroups(),
+  colorStrategy: 'random' as const,
+  exactColorQuotas: false,
+  colorBandWidth: 1,
+  colorNoiseScale: 0.15,
+  harmonyRule: 'triadic' as const,
+  harmonyBaseHue: 220,
+  harmonyLightness: 0.7,
+  harmonyChroma: 0.15,
 
   // 애니메이션 설정
   animationSpeed: 1.0,
@@ -54,19 +112,44 @@ const defaultSettings = {
   cameraPositionX: 0,
   cameraPositionY: 0,
   cameraPositionZ: 15,
-  cameraControlType: 'orbit' as const
+  cameraControlType: 'orbit' as const,
+
+  // 디버그 설정
+  showRenderStats: false,
+  continuousRendering: false
 };
 
 interface UseSettingsOptions {
   onCameraControlTypeChange?: (type: 'trackball' | 'orbit') => void;
+  onStorageError?: (message: string) => void;
 }
 
 export const useSettings = (options: UseSettingsOptions = {}) => {
-  const { onCameraControlTypeChange } = options;
+  const { onCameraControlTypeChange, onStorageError } = options;
   
   // 색상 시드 관리
   const colorSeedRef = useRef<number>(Math.floor(Math.random() * 1000000));
 
+  // 설정은 바뀔 때마다 자동 저장되므로 저장 실패는 처음 한 번만 알림
+  const onStorageErrorRef = useRef(onStorageError);
+  onStorageErrorRef.current = onStorageError;
+  const storageFailedRef = useRef(false);
+
+  const persistSettings = useCallback((settingsToSave: Record<string, unknown>) => {
+    try {
+      writeStorage(STORAGE_KEYS.SETTINGS, settingsToSave);
+      storageFailedRef.current = false;
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+      if (!storageFailedRef.current) {
+        storageFailedRef.current = true;
+        onStorageErrorRef.current?.(
+          error instanceof StorageFullError ? error.message : 'Failed to save settings.'
+        );
+      }
+    }
+  }, []);
+
   /**
    * localStorage에서 저장된 설정을 로드합니다.
    */
@@ -74,7 +157,8 @@ export const useSettings = (options: UseSettingsOptions = {}) => {
     try {
       const saved = localStorage.getItem(STORAGE_KEYS.SETTINGS);
       if (saved) {
-        const settings = JSON.parse(saved);
+        // 예전 평면 색상 그룹 키는 colorGroups 배열로 변환
+        const settings = migrateColorGroups(JSON.parse(saved));
 
         if (settings.colorSeed !== undefined) {
           colorSeedRef.current = settings.colorSeed;
@@ -119,11 +203,14 @@ export const useSettings = (options: UseSettingsOptions = {}) => {
       ...settingsWithoutCamera,
       colorSeed: colorSeedRef.current,
     };
-    localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settingsToSave));
-  }, [settings]);
+    persistSettings(settingsToSave);
+  }, [settings, persistSettings]);
 
   // 설정을 적용하는 함수 (카메라 위치 제외)
-  const applySettings = useCallback((newSettings: Record<string, unknown>) => {
+  const applySettings = useCallback((rawSettings: Record<string, unknown>) => {
+    // 예전 평면 색상 그룹 키는 colorGroups 배열로 변환
+    const newSettings = migrateColorGroups(rawSettings);
+
     // 색상 시드 적용
     if (newSettings.colorSeed !== undefined) {
       colorSeedRef.current = newSettings.colorSeed as number;
@@ -136,11 +223,11 @@ export const useSettings = (options: UseSettingsOptions = {}) => {
 
     // 카메라 위치를 제외한 설정만 localStorage에 저장
     const { cameraPositionX, cameraPositionY, cameraPositionZ, ...settingsWithoutCamera } = newSettings;
-    localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settingsWithoutCamera));
+    persistSettings(settingsWithoutCamera);
 
     // 설정 적용
     setSettings(prev => ({ ...prev, ...newSettings }));
-  }, [onCameraControlTypeChange]);
+  }, [onCameraControlTypeChange, persistSettings]);
 
   // URL에서 프로젝트 설정 로드
   const loadProjectFromURL = useCallback(() => {
@@ -149,7 +236,7 @@ export const useSettings = (options: UseSettingsOptions = {}) => {
 
     if (projectData) {
       try {
-        const settings = JSON.parse(decodeURIComponent(projectData));
+        const settings = migrateColorGroups(JSON.parse(decodeURIComponent(projectData)));
 
         // 색상 시드 적용
         if (settings.colorSeed !== undefined) {
@@ -166,7 +253,7 @@ export const useSettings = (options: UseSettingsOptions = {}) => {
 
         // 카메라 위치를 제외한 설정만 localStorage에 저장
         const { cameraPositionX, cameraPositionY, cameraPositionZ, ...settingsWithoutCamera } = settings;
-        localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settingsWithoutCamera));
+        persistSettings(settingsWithoutCamera);
 
         // URL에서 프로젝트 파라미터 제거
         const newURL = window.location.pathname;
@@ -179,7 +266,7 @@ export const useSettings = (options: UseSettingsOptions = {}) => {
       }
     }
     return false;
-  }, [onCameraControlTypeChange]);
+  }, [onCameraControlTypeChange, persistSettings]);
 
   // 모든 설정을 기본값으로 리셋
   const resetAllSettings = useCallback(() => {
@@ -1,9 +1,11 @@
 import { useRef, useEffect, useCallback } from 'react';
 import { TrackballControls, OrbitControls } from 'three-stdlib';
 import { KEYBOARD_SHORTCUTS, CAMERA_DEFAULTS, isKeyMatch } from '../constants';
+import { RenderScheduler } from '../utils/renderScheduler';
 
 interface UseSmoothCameraControlsOptions {
   controlsRef: React.MutableRefObject<TrackballControls | OrbitControls | null>;
+  renderScheduler: RenderScheduler;
   isEnabled?: boolean;
 }
 
@@ -13,11 +15,11 @@ interface KeyState {
 
 export const useSmoothCameraControls = ({
   controlsRef,
+  renderScheduler,
   isEnabled = true,
 }: UseSmoothCameraControlsOptions) => {
   // 키 상태 추적
   const keysRef = useRef<KeyState>({});
-  const animationIdRef = useRef<number>();
   
   // 카메라 이동 속도 (더 빠르고 부드럽게)
   const moveSpeed = CAMERA_DEFAULTS.KEYBOARD_MOVE_SPEED * 3; // 3배 더 빠르게
@@ -36,11 +38,10 @@ export const useSmoothCameraControls = ({
     keysRef.current[key] = pressed;
   }, []);
 
-  // 부드러운 카메라 이동 업데이트
-  const updateCameraPosition = useCallback(() => {
+  // 부드러운 카메라 이동 업데이트 (렌더 스케줄러의 프레임 콜백, 움직이는 동안 true 반환)
+  const updateCameraPosition = useCallback((): boolean => {
     if (!controlsRef.current || !isEnabled) {
-      animationIdRef.current = requestAnimationFrame(updateCameraPosition);
-      return;
+      return false;
     }
 
     const camera = controlsRef.current.object;
@@ -106,10 +107,11 @@ export const useSmoothCameraControls = ({
       
       // 컨트롤 업데이트
       controlsRef.current.update();
+      return true;
     }
 
-    // 다음 프레임 예약
-    animationIdRef.current = requestAnimationFrame(updateCameraPosition);
+    // 키를 누르고 있으면 가속 중이므로 다음 프레임도 필요
+    return targetVelocityX !== 0 || targetVelocityY !== 0 || targetVelocityZ !== 0;
   }, [controlsRef, isEnabled, moveSpeed, maxSpeed]);
 
   // 키보드 이벤트 핸들러
@@ -140,8 +142,10 @@ export const useSmoothCameraControls = ({
       // 코드 우선, 없으면 키 사용
       const keyToStore = isCodeMatch ? event.code : event.key;
       updateKeyState(keyToStore, true);
+      // 멈춰 있던 렌더 루프를 깨움
+      renderScheduler.requestRender();
     }
-  }, [isEnabled, updateKeyState]);
+  }, [isEnabled, updateKeyState, renderScheduler]);
 
   const handleKeyUp = useCallback((event: KeyboardEvent) => {
     if (!isEnabled) return;
@@ -171,8 +175,8 @@ export const useSmoothCameraControls = ({
   useEffect(() => {
     if (!isEnabled) return;
 
-    // 애니메이션 시작
-    animationIdRef.current = requestAnimationFrame(updateCameraPosition);
+    // 공용 렌더 스케줄러에 카메라 이동 등록
+    const removeFrameCallback = renderScheduler.addFrameCallback(updateCameraPosition);
 
     // 이벤트 리스너 등록
     window.addEventListener('keydown', handleKeyDown);
@@ -182,9 +186,7 @@ export const useSmoothCameraControls = ({
 
     return () => {
       // 정리
-      if (animationIdRef.current) {
-        cancelAnimationFrame(animationIdRef.current);
-      }
+      removeFrameCallback();
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
       window.removeEventListener('blur', handleBlur);
@@ -194,7 +196,7 @@ export const useSmoothCameraControls = ({
       keysRef.current = {};
       velocityRef.current = { x: 0, y: 0, z: 0 };
     };
-  }, [isEnabled, updateCameraPosition, handleKeyDown, handleKeyUp, handleBlur]);
+  }, [isEnabled, updateCameraPosition, handleKeyDown, handleKeyUp, handleBlur, renderScheduler]);
 
   // 카메라 이동 중지
   const stopMovement = useCallback(() => {
@@ -1,17 +1,35 @@
-import { useRef, useCallback, useEffect, useMemo } from 'react';
+import { useRef, useCallback, useEffect, useMemo, useState } from 'react';
 import * as THREE from 'three';
 import { TrackballControls, OrbitControls } from 'three-stdlib';
-import { CircleData, CircleGridConfig, ShapeType } from '../types';
+import { CircleData, CircleGridConfig, ColorGroup, ColorStrategyOptions } from '../types';
 import {
-  createShapeGeometry,
-  createShapeStrokeGeometry,
   generateCirclePositions,
   assignColorGroups,
   applyCylindricalTransform,
+  applyJitter,
 } from '../utils/circleGeometry';
+import {
+  InstancedGrid,
+  InstancedGridOptions,
+  GroupAppearance,
+  prepareCellProxies,
+  updateInstancedGrid,
+  syncInstanceMatrices,
+  updateInstanceColors,
+  disposeInstancedGrid,
+} from '../utils/instancedGrid';
+import { applyHalftoneSampling, loadHalftoneImageData } from '../utils/halftone';
+import { applySurfaceMapping } from '../utils/surfaceMappings';
+import { applyDeformers } from '../utils/deformers';
 import { isDarkBackground } from '../utils/colorUtils';
+import { createRenderScheduler } from '../utils/renderScheduler';
+import { assignCircleSegments } from '../utils/levelOfDetail';
+import { DEFAULT_EXTRUSION_DEPTH } from '../utils/colorGroups';
 import { RENDER_CONSTANTS, CAMERA_DEFAULTS } from '../constants';
 
+// 카메라 이동이 멈춘 뒤 원 분할 수를 갱신하기까지의 지연 (ms)
+const LOD_UPDATE_DELAY = 200;
+
 interface UseThreeRendererOptions {
   settings: any;
   colorSeedRef: React.MutableRefObject<number>;
@@ -30,7 +48,25 @@ export const useThreeRenderer = ({
   const cameraRef = useRef<THREE.PerspectiveCamera>();
   const controlsRef = useRef<TrackballControls | OrbitControls | null>(null);
   const circlesRef = useRef<CircleData[]>([]);
-  const animationIdRef = useRef<number>();
+  // 색상 그룹별로 묶인 인스턴스 메시
+  const instancedGridRef = useRef<InstancedGrid | null>(null);
+  // 내보내기 중 최대 세분화 강제 여부와 카메라 이동 후 세분화 갱신 예약
+  const maxQualityRef = useRef(false);
+  const levelOfDetailTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const refreshLevelOfDetailRef = useRef<() => void>();
+  // 하프톤 샘플링용 이미지 픽셀 데이터
+  const [halftoneImageData, setHalftoneImageData] = useState<ImageData | null>(null);
+  // 색상 그룹별 실제 셀 수 (컨트롤 패널 표시용)
+  const [colorGroupCounts, setColorGroupCounts] = useState<number[]>([]);
+
+  // 필요할 때만 그리는 공용 렌더 스케줄러
+  const renderScheduler = useMemo(() => createRenderScheduler(), []);
+
+  // 카메라가 멈춘 뒤 원 분할 수 갱신 (이동 중에는 매번 다시 만들지 않음)
+  const scheduleLevelOfDetailUpdate = useCallback(() => {
+    clearTimeout(levelOfDetailTimerRef.current);
+    levelOfDetailTimerRef.current = setTimeout(() => refreshLevelOfDetailRef.current?.(), LOD_UPDATE_DELAY);
+  }, []);
 
   // 카메라 기본값
   const cameraDefaults = useMemo(() => ({
@@ -48,6 +84,22 @@ export const useThreeRenderer = ({
     return `rgb(${rgba.r}, ${rgba.g}, ${rgba.b})`;
   }, []);
 
+  // 색상 그룹의 채우기/테두리 색상 (없는 그룹은 1번 그룹 색상 사용)
+  const getGroupAppearance = useCallback((colorGroup: number): GroupAppearance => {
+    const group = settings.colorGroups[colorGroup] ?? settings.colorGroups[0];
+    const { fill, syncColors } = group;
+    const stroke = syncColors ? fill : group.stroke;
+    return {
+      fillColor: rgbToCss(fill),
+      strokeColor: rgbToCss(stroke),
+      fillOpacity: fill.a,
+      strokeOpacity: stroke.a,
+      syncColors,
+      // 하프톤 샘플링 색상을 쓰는 동안에는 그라디언트 대신 샘플링 색상 표시
+      gradient: settings.halftoneEnabled && settings.halftoneColorMode === 'direct' ? undefined : group.gradient
+    };
+  }, [settings, rgbToCss]);
+
   // 설정을 CircleGridConfig로 변환
   const getConfig = useCallback((): CircleGridConfig => ({
     rows: settings.rows,
@@ -56,8 +108,61 @@ export const useThreeRenderer = ({
     circleRadius: settings.circleRadius,
     rectangleWidth: settings.rectangleWidth,
     rectangleHeight: settings.rectangleHeight,
+    polygonSides: settings.polygonSides,
+    polygonRotation: settings.polygonRotation,
+    cornerRadius: settings.cornerRadius,
+    customSvg: settings.customSvg,
     rowSpacing: settings.rowSpacing,
-    colSpacing: settings.colSpacing
+    colSpacing: settings.colSpacing,
+    layout: settings.gridLayout,
+    brickOffset: settings.brickOffset,
+    spiralCount: settings.spiralCount,
+    spiralAngle: settings.spiralAngle,
+    scatterMinDistance: settings.scatterMinDistance,
+    layoutSeed: settings.shapeSeed,
+    widthScaleCurve: {
+      type: settings.widthScaleCurve,
+      waves: settings.widthScaleWaves,
+      points: settings.widthScalePoints
+    },
+    heightScaling: {
+      enabled: settings.enableHeightScaling,
+      factor: settings.heightScaleFactor,
+      curve: {
+        type: settings.heightScaleCurve,
+        waves: settings.heightScaleWaves,
+        points: settings.heightScalePoints
+      }
+    },
+    radiusScaling: {
+      enabled: settings.enableRadiusScaling,
+      factor: settings.radiusScaleFactor,
+      axis: settings.radiusScaleAxis,
+      curve: {
+        type: settings.radiusScaleCurve,
+        waves: settings.radiusScaleWaves,
+        points: settings.radiusScalePoints
+      }
+    },
+    focalScaling: {
+      enabled: settings.enableFocalScaling,
+      factor: settings.focalScaleFactor,
+      x: settings.focalPointX,
+      y: settings.focalPointY,
+      radius: settings.focalRadius,
+      curve: {
+        type: settings.focalScaleCurve,
+        waves: settings.focalScaleWaves,
+        points: settings.focalScalePoints
+      }
+    },
+    extrusion: settings.extrusionEnabled ? {
+      depth: settings.colorGroups[0]?.extrusionDepth ?? DEFAULT_EXTRUSION_DEPTH,
+      bevelEnabled: settings.bevelEnabled,
+      bevelSize: settings.bevelSize,
+      bevelSegments: settings.bevelSegments
+    } : undefined,
+    groupExtrusionDepths: settings.colorGroups.map((group: ColorGroup) => group.extrusionDepth)
   }), [settings]);
 
   // 씬 초기화
@@ -102,6 +207,13 @@ export const useThreeRenderer = ({
       settings.cameraPositionY,
       settings.cameraPositionZ
     );
+    camera.layers.enable(RENDER_CONSTANTS.EDITOR_LAYER);
+
+    // 돌출된 입체 도형용 조명 (평면 도형의 MeshBasicMaterial에는 영향 없음)
+    const ambientLight = new THREE.AmbientLight(0xffffff, RENDER_CONSTANTS.AMBIENT_LIGHT_INTENSITY);
+    const directionalLight = new THREE.DirectionalLight(0xffffff, RENDER_CONSTANTS.DIRECTIONAL_LIGHT_INTENSITY);
+    directionalLight.position.set(5, 8, 12);
+    scene.add(ambientLight, directionalLight);
 
     sceneRef.current = scene;
     rendererRef.current = renderer;
@@ -137,126 +249,18 @@ export const useThreeRenderer = ({
       controls = orbitControls;
     }
 
-    controlsRef.current = controls;
-  }, [settings.cameraPositionX, settings.cameraPositionY, settings.cameraPositionZ, settings.backgroundColor, cameraDefaults]);
-
-  // 도형 생성
-  const createCircles = useCallback(() => {
-    if (!sceneRef.current) return;
-
-    // 기존 원들 제거
-    circlesRef.current.forEach(circle => {
-      if (circle.mesh) {
-        sceneRef.current!.remove(circle.mesh);
-      }
-    });
-
-    // 새로운 도형들 생성
-    const circles = generateCirclePositions(getConfig());
-    assignColorGroups(circles, [
-      settings.frequency1,
-      settings.frequency2,
-      settings.frequency3,
-      settings.frequency4
-    ], colorSeedRef.current);
-
-    circles.forEach(circle => {
-      const group = new THREE.Group();
-
-      // Create geometry with variable width for this specific circle
-      const fillGeometry = createShapeGeometry(
-        getConfig(),
-        circle.columnIndex,
-        settings.enableWidthScaling,
-        settings.widthScaleFactor
-      );
-
-      const strokeGeometry = createShapeStrokeGeometry(
-        getConfig(),
-        settings.borderThickness,
-        circle.columnIndex,
-        settings.enableWidthScaling,
-        settings.widthScaleFactor
-      );
-
-      // 색상 그룹에 따른 재료 선택
-      let fillColor, strokeColor, fillOpacity, strokeOpacity;
-      switch (circle.colorGroup) {
-        case 0:
-          fillColor = rgbToCss(settings.fill1);
-          strokeColor = settings.syncColors1 ? rgbToCss(settings.fill1) : rgbToCss(settings.stroke1);
-          fillOpacity = settings.fill1.a;
-          strokeOpacity = settings.syncColors1 ? settings.fill1.a : settings.stroke1.a;
-          break;
-        case 1:
-          fillColor = rgbToCss(settings.fill2);
-          strokeColor = settings.syncColors2 ? rgbToCss(settings.fill2) : rgbToCss(settings.stroke2);
-          fillOpacity = settings.fill2.a;
-          strokeOpacity = settings.syncColors2 ? settings.fill2.a : settings.stroke2.a;
-          break;
-        case 2:
-          fillColor = rgbToCss(settings.fill3);
-          strokeColor = settings.syncColors3 ? rgbToCss(settings.fill3) : rgbToCss(settings.stroke3);
-          fillOpacity = settings.fill3.a;
-          strokeOpacity = settings.syncColors3 ? settings.fill3.a : settings.stroke3.a;
-          break;
-        case 3:
-          fillColor = rgbToCss(settings.fill4);
-          strokeColor = settings.syncColors4 ? rgbToCss(settings.fill4) : rgbToCss(settings.stroke4);
-          fillOpacity = settings.fill4.a;
-          strokeOpacity = settings.syncColors4 ? settings.fill4.a : settings.stroke4.a;
-          break;
-        default:
-          fillColor = rgbToCss(settings.fill1);
-          strokeColor = settings.syncColors1 ? rgbToCss(settings.fill1) : rgbToCss(settings.stroke1);
-          fillOpacity = settings.fill1.a;
-          strokeOpacity = settings.syncColors1 ? settings.fill1.a : settings.stroke1.a;
-      }
-
-      // 채우기
-      const fillMaterial = new THREE.MeshBasicMaterial({
-        color: fillColor,
-        side: THREE.DoubleSide,
-        transparent: fillOpacity < 1.0,
-        opacity: fillOpacity
-      });
-      const fillMesh = new THREE.Mesh(fillGeometry, fillMaterial);
-      group.add(fillMesh);
-
-      // 테두리
-      const strokeMaterial = new THREE.MeshBasicMaterial({
-        color: strokeColor,
-        side: THREE.DoubleSide,
-        transparent: strokeOpacity < 1.0,
-        opacity: strokeOpacity
-      });
-      const strokeMesh = new THREE.Mesh(strokeGeometry, strokeMaterial);
-      strokeMesh.position.z = RENDER_CONSTANTS.Z_FIGHTING_OFFSET;
-      group.add(strokeMesh);
-
-      // 원래 위치를 userData에 저장
-      group.userData.originalPosition = { x: circle.position.x, y: circle.position.y, z: circle.position.z };
-      group.position.set(circle.position.x, circle.position.y, circle.position.z);
-      
-      sceneRef.current!.add(group);
-      circle.mesh = group;
-      // 현재 도형 타입 초기화
-      circle.currentShapeType = getConfig().shapeType;
-    });
+    // 컨트롤로 카메라가 움직이면 다시 그림 (드래그 중에는 관성 처리를 위해 매 프레임 업데이트)
+    controls.addEventListener('change', renderScheduler.requestRender);
+    controls.addEventListener('change', scheduleLevelOfDetailUpdate);
+    controls.addEventListener('start', () => renderScheduler.setContinuous('controls', true));
+    controls.addEventListener('end', () => renderScheduler.setContinuous('controls', false));
 
-    circlesRef.current = circles;
-    
-    // circles 생성 직후 transform 즉시 적용 (깜빡임 방지)
-    applyCylindricalTransform(
-      circles,
-      settings.cylinderCurvature,
-      settings.cylinderRadius,
-      getConfig(),
-      settings.cylinderAxis,
-      settings.rotationY
-    );
+    controlsRef.current = controls;
+    renderScheduler.requestRender();
+  }, [settings.cameraPositionX, settings.cameraPositionY, settings.cameraPositionZ, settings.backgroundColor, cameraDefaults, renderScheduler, scheduleLevelOfDetailUpdate]);
 
-    // Object transform 적용
+  // Object transform 적용 (cylindrical transform 이후에 호출)
+  const applyObjectTransform = useCallback((circles: CircleData[]) => {
     circles.forEach(circle => {
       if (!circle.mesh) return;
 
@@ -268,76 +272,64 @@ export const useThreeRenderer = ({
         currentPos.z + settings.objectPositionZ
       );
 
+      // 방사형 배치에서는 도형을 반지름 방향으로 회전 + 셀별 회전 지터
+      const orientation = (settings.orientToRadius ? circle.orientation ?? 0 : 0) + (circle.jitter?.rotation ?? 0);
+
+      // 원통 외의 곡면: 곡면 법선 방향 회전 위에 오브젝트 회전을 도형 기준으로 더함
+      if (settings.surfaceMapping !== 'cylinder') {
+        circle.mesh.quaternion.multiply(new THREE.Quaternion().setFromEuler(new THREE.Euler(
+          settings.rotationX,
+          settings.rotationY,
+          settings.rotationZ + orientation
+        )));
+        return;
+      }
+
       // 통합된 rotation 적용 (cylindrical transform의 rotation은 유지)
       const currentRotation = circle.mesh.rotation;
       circle.mesh.rotation.set(
         settings.rotationX,
         currentRotation.y, // cylindrical transform에서 설정한 rotationY 유지
-        settings.rotationZ
+        settings.rotationZ + orientation
       );
     });
-  }, [settings, getConfig, rgbToCss, colorSeedRef]);
-
-  // 색상 업데이트
-  const updateColors = useCallback(() => {
-    circlesRef.current.forEach(circle => {
-      if (!circle.mesh) return;
-
-      // 색상 그룹에 따른 재료 선택
-      let fillColor, strokeColor, fillOpacity, strokeOpacity;
-      switch (circle.colorGroup) {
-        case 0:
-          fillColor = rgbToCss(settings.fill1);
-          strokeColor = settings.syncColors1 ? rgbToCss(settings.fill1) : rgbToCss(settings.stroke1);
-          fillOpacity = settings.fill1.a;
-          strokeOpacity = settings.syncColors1 ? settings.fill1.a : settings.stroke1.a;
-          break;
-        case 1:
-          fillColor = rgbToCss(settings.fill2);
-          strokeColor = settings.syncColors2 ? rgbToCss(settings.fill2) : rgbToCss(settings.stroke2);
-          fillOpacity = settings.fill2.a;
-          strokeOpacity = settings.syncColors2 ? settings.fill2.a : settings.stroke2.a;
-          break;
-        case 2:
-          fillColor = rgbToCss(settings.fill3);
-          strokeColor = settings.syncColors3 ? rgbToCss(settings.fill3) : rgbToCss(settings.stroke3);
-          fillOpacity = settings.fill3.a;
-          strokeOpacity = settings.syncColors3 ? settings.fill3.a : settings.stroke3.a;
-          break;
-        case 3:
-          fillColor = rgbToCss(settings.fill4);
-          strokeColor = settings.syncColors4 ? rgbToCss(settings.fill4) : rgbToCss(settings.stroke4);
-          fillOpacity = settings.fill4.a;
-          strokeOpacity = settings.syncColors4 ? settings.fill4.a : settings.stroke4.a;
-          break;
-        default:
-          fillColor = rgbToCss(settings.fill1);
-          strokeColor = settings.syncColors1 ? rgbToCss(settings.fill1) : rgbToCss(settings.stroke1);
-          fillOpacity = settings.fill1.a;
-          strokeOpacity = settings.syncColors1 ? settings.fill1.a : settings.stroke1.a;
-      }
-
-      // 기존 재질 업데이트
-      const children = circle.mesh.children;
-      if (children.length >= 2) {
-        // fill mesh (첫 번째 자식)
-        const fillMesh = children[0] as THREE.Mesh;
-        if (fillMesh.material) {
-          (fillMesh.material as THREE.MeshBasicMaterial).color.set(fillColor);
-          (fillMesh.material as THREE.MeshBasicMaterial).opacity = fillOpacity;
-          (fillMesh.material as THREE.MeshBasicMaterial).transparent = fillOpacity < 1.0;
-        }
-
-        // stroke mesh (두 번째 자식)
-        const strokeMesh = children[1] as THREE.Mesh;
-        if (strokeMesh.material) {
-          (strokeMesh.material as THREE.MeshBasicMaterial).color.set(strokeColor);
-          (strokeMesh.material as THREE.MeshBasicMaterial).opacity = strokeOpacity;
-          (strokeMesh.material as THREE.MeshBasicMaterial).transparent = strokeOpacity < 1.0;
-        }
-      }
-    });
-  }, [settings, rgbToCss]);
+  }, [settings]);
+
+  // 곡면 변환 적용 (원통 또는 구/토러스/원뿔/안장면)
+  const applySurfaceTransform = useCallback((circles: CircleData[]) => {
+    if (settings.surfaceMapping === 'sphere') {
+      applySurfaceMapping(circles, 'sphere', {
+        curvature: settings.sphereCurvature,
+        radius: settings.sphereRadius
+      }, getConfig());
+    } else if (settings.surfaceMapping === 'torus') {
+      applySurfaceMapping(circles, 'torus', {
+        curvature: settings.torusCurvature,
+        radius: settings.torusMajorRadius,
+        minorRadius: settings.torusMinorRadius
+      }, getConfig());
+    } else if (settings.surfaceMapping === 'cone') {
+      applySurfaceMapping(circles, 'cone', {
+        curvature: settings.coneCurvature,
+        radius: settings.coneRadius,
+        coneAngle: settings.coneAngle
+      }, getConfig());
+    } else if (settings.surfaceMapping === 'saddle') {
+      applySurfaceMapping(circles, 'saddle', {
+        curvature: settings.saddleCurvature,
+        radius: settings.saddleRadius
+      }, getConfig());
+    } else {
+      applyCylindricalTransform(
+        circles,
+        settings.cylinderCurvature,
+        settings.cylinderRadius,
+        getConfig(),
+        settings.cylinderAxis,
+        settings.rotationY
+      );
+    }
+  }, [settings, getConfig]);
 
   // 변환 업데이트
   const updateTransforms = useCallback(() => {
@@ -348,40 +340,149 @@ export const useThreeRenderer = ({
       if (originalPosition) {
         circle.mesh.position.set(originalPosition.x, originalPosition.y, originalPosition.z);
         circle.mesh.rotation.set(0, 0, 0);
+        // 테이퍼 등 변형기가 바꾼 크기도 셀 기본 크기(지터)로 되돌림
+        circle.mesh.scale.setScalar(circle.jitter?.scale ?? 1);
       }
     });
 
-    // Apply cylindrical transform first
-    applyCylindricalTransform(
-      circlesRef.current,
-      settings.cylinderCurvature,
-      settings.cylinderRadius,
+    // Apply surface (cylinder, sphere, ...) transform first
+    applySurfaceTransform(circlesRef.current);
+
+    // Then apply object rotations and positions
+    applyObjectTransform(circlesRef.current);
+
+    // Finally apply the deformer stack in order
+    applyDeformers(circlesRef.current, settings.deformers);
+
+    if (instancedGridRef.current) {
+      syncInstanceMatrices(instancedGridRef.current);
+    }
+    renderScheduler.requestRender();
+  }, [settings.deformers, applySurfaceTransform, applyObjectTransform, renderScheduler]);
+
+  // 격자 평면 좌표 (x, y)를 셀과 같은 곡면 변환 + 오브젝트 변환으로 옮긴 월드 위치 (초점 핸들 배치용)
+  // 변형기는 셀 전체 분포(회전 중심, 인덱스 진행도)에 따라 달라지므로 적용하지 않음
+  const mapGridPoint = useCallback((x: number, y: number, target = new THREE.Vector3()): THREE.Vector3 => {
+    const proxy = new THREE.Object3D();
+    proxy.userData.originalPosition = { x, y, z: 0 };
+    proxy.position.set(x, y, 0);
+    const point: CircleData = { position: { x, y, z: 0 }, colorGroup: 0, columnIndex: 0, rowIndex: 0, mesh: proxy };
+
+    applySurfaceTransform([point]);
+    applyObjectTransform([point]);
+    return target.copy(proxy.position);
+  }, [applySurfaceTransform, applyObjectTransform]);
+
+  // 인스턴스 격자 생성 옵션
+  const getGridOptions = useCallback((): InstancedGridOptions => ({
+    config: getConfig(),
+    borderThickness: settings.borderThickness,
+    enableWidthScaling: settings.enableWidthScaling,
+    widthScaleFactor: settings.widthScaleFactor,
+    // 돌출된 도형은 두께가 보이도록 조명을 받는 재질 사용
+    lit: settings.extrusionEnabled,
+    getAppearance: getGroupAppearance
+  }), [settings, getConfig, getGroupAppearance]);
+
+  // 셀별 원 분할 수 결정 (적응형이 꺼져 있거나 내보내기 중이면 최대 품질)
+  const assignLevelOfDetail = useCallback((circles: CircleData[]): boolean => {
+    const isAdaptive = settings.adaptiveTessellation && !maxQualityRef.current;
+    return assignCircleSegments(
+      circles,
       getConfig(),
-      settings.cylinderAxis,
-      settings.rotationY
+      isAdaptive ? cameraRef.current ?? null : null,
+      rendererRef.current?.domElement.clientHeight || window.innerHeight
     );
+  }, [settings.adaptiveTessellation, getConfig]);
 
-    // Then apply object rotations and positions
-    circlesRef.current.forEach(circle => {
-      if (!circle.mesh) return;
+  // 카메라/화면 크기 변화에 맞춰 원 분할 수를 다시 정하고, 바뀐 셀이 있으면 해당 묶음만 다시 생성
+  const refreshLevelOfDetail = useCallback(() => {
+    if (!instancedGridRef.current || !assignLevelOfDetail(circlesRef.current)) return;
 
-      // 원래 위치에서 오프셋 적용 (cylindrical transform 후)
-      const currentPos = circle.mesh.position;
-      circle.mesh.position.set(
-        currentPos.x + settings.objectPositionX,
-        currentPos.y + settings.objectPositionY,
-        currentPos.z + settings.objectPositionZ
-      );
+    // 프록시 변환은 그대로 유지되므로 묶음만 다시 구성
+    instancedGridRef.current = updateInstancedGrid(instancedGridRef.current, circlesRef.current, getGridOptions());
+    renderScheduler.requestRender();
+  }, [assignLevelOfDetail, getGridOptions, renderScheduler]);
+  refreshLevelOfDetailRef.current = refreshLevelOfDetail;
 
-      // 통합된 rotation 적용 (cylindrical transform의 rotation은 유지)
-      const currentRotation = circle.mesh.rotation;
-      circle.mesh.rotation.set(
-        settings.rotationX,
-        currentRotation.y, // cylindrical transform에서 설정한 rotationY 유지
-        settings.rotationZ
-      );
+  // 내보내기용 최대 품질 강제 (캡처 직전에 켜고 직후에 끔)
+  const setMaxQuality = useCallback((enabled: boolean) => {
+    maxQualityRef.current = enabled;
+    refreshLevelOfDetail();
+  }, [refreshLevelOfDetail]);
+
+  // 도형 생성
+  const createCircles = useCallback(() => {
+    if (!sceneRef.current) return;
+
+    // 새로운 도형들 생성
+    const circles = generateCirclePositions(getConfig());
+    const frequencies = settings.colorGroups.map((group: ColorGroup) => group.frequency);
+    const strategyOptions: ColorStrategyOptions = {
+      strategy: settings.colorStrategy,
+      bandWidth: settings.colorBandWidth,
+      noiseScale: settings.colorNoiseScale,
+      exactQuotas: settings.exactColorQuotas,
+      neighborDistance: Math.max(settings.rowSpacing, settings.colSpacing) * 1.1
+    };
+    // 무작위 배정은 (시드, 행, 열) 해시로 정해지므로 행/열을 바꿔도 남아 있는 셀의 색상이 유지됨
+    assignColorGroups(circles, frequencies, colorSeedRef.current, strategyOptions);
+
+    applyJitter(circles, {
+      position: settings.jitterPosition,
+      rotation: settings.jitterRotation,
+      scale: settings.jitterScale
+    }, settings.jitterSeed);
+
+    // 하프톤: 이미지를 샘플링해 셀 크기와 색상 결정
+    if (settings.halftoneEnabled && halftoneImageData) {
+      applyHalftoneSampling(circles, halftoneImageData, {
+        minScale: settings.halftoneMinScale,
+        invert: settings.halftoneInvert,
+        colorMode: settings.halftoneColorMode,
+        groupColors: settings.colorGroups.map((group: ColorGroup) => (group.frequency > 0 ? group.fill : null)),
+      });
+    }
+
+    const counts = frequencies.map(() => 0);
+    circles.forEach(circle => {
+      if (circle.colorGroup < counts.length) counts[circle.colorGroup]++;
     });
-  }, [settings, getConfig]);
+    setColorGroupCounts(prev => (
+      prev.length === counts.length && prev.every((count, index) => count === counts[index]) ? prev : counts
+    ));
+
+    // 셀 프록시를 준비하고 (행, 열)이 같은 셀은 기존 프록시 재사용
+    prepareCellProxies(instancedGridRef.current, circles, getGridOptions());
+    circlesRef.current = circles;
+
+    // 곡면 변환 → 오브젝트 변환 → 변형기 순으로 프록시에 적용
+    applySurfaceTransform(circles);
+    applyObjectTransform(circles);
+    applyDeformers(circles, settings.deformers);
+
+    // 변환된 실제 위치로 원 분할 수를 정한 뒤 인스턴스 메시를 한 번만 갱신 (행렬도 함께 반영됨)
+    assignLevelOfDetail(circles);
+    const grid = updateInstancedGrid(instancedGridRef.current, circles, getGridOptions());
+
+    // 씬이 다시 초기화된 경우 새 씬으로 옮김
+    if (grid.root.parent !== sceneRef.current) {
+      grid.root.removeFromParent();
+      sceneRef.current.add(grid.root);
+    }
+    instancedGridRef.current = grid;
+    renderScheduler.requestRender();
+  }, [
+    settings, getConfig, getGridOptions, colorSeedRef, applySurfaceTransform, applyObjectTransform,
+    assignLevelOfDetail, halftoneImageData, renderScheduler
+  ]);
+
+  // 색상 업데이트
+  const updateColors = useCallback(() => {
+    if (!instancedGridRef.current) return;
+    updateInstanceColors(instancedGridRef.current, getGroupAppearance);
+    renderScheduler.requestRender();
+  }, [getGroupAppearance, renderScheduler]);
 
   // 카메라 위치 리셋
   const resetCameraPosition = useCallback(() => {
@@ -407,18 +508,14 @@ export const useThreeRenderer = ({
     }
   }, []);
 
-  // 애니메이션 루프
-  const animate = useCallback(() => {
-    animationIdRef.current = requestAnimationFrame(animate);
-
-    if (controlsRef.current) {
-      controlsRef.current.update();
-    }
-
-    if (rendererRef.current && sceneRef.current && cameraRef.current) {
-      rendererRef.current.render(sceneRef.current, cameraRef.current);
-    }
-  }, []);
+  // 렌더 루프 시작 (변경으로 프레임이 더럽혀졌을 때만 그림)
+  const startRenderLoop = useCallback(() => {
+    renderScheduler.setRenderer(() => {
+      if (rendererRef.current && sceneRef.current && cameraRef.current) {
+        rendererRef.current.render(sceneRef.current, cameraRef.current);
+      }
+    });
+  }, [renderScheduler]);
 
   // 화면 크기 변경 핸들러
   const handleResize = useCallback(() => {
@@ -426,14 +523,39 @@ export const useThreeRenderer = ({
       cameraRef.current.aspect = window.innerWidth / window.innerHeight;
       cameraRef.current.updateProjectionMatrix();
       rendererRef.current.setSize(window.innerWidth, window.innerHeight);
+      renderScheduler.requestRender();
+      scheduleLevelOfDetailUpdate();
     }
-  }, []);
+  }, [renderScheduler, scheduleLevelOfDetailUpdate]);
+
+  // 하프톤 이미지 디코딩 (완료되면 createCircles가 갱신되어 씬이 다시 생성됨)
+  useEffect(() => {
+    if (!settings.halftoneImage) {
+      setHalftoneImageData(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadHalftoneImageData(settings.halftoneImage)
+      .then(imageData => {
+        if (!cancelled) setHalftoneImageData(imageData);
+      })
+      .catch(error => {
+        console.warn('Failed to decode halftone image:', error);
+        if (!cancelled) setHalftoneImageData(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [settings.halftoneImage]);
 
   // 배경색 변경
   useEffect(() => {
     const timeoutId = setTimeout(() => {
       if (rendererRef.current) {
         rendererRef.current.setClearColor(settings.backgroundColor);
+        renderScheduler.requestRender();
       }
 
       // 배경색에 따라 테마 동적 변경
@@ -442,7 +564,7 @@ export const useThreeRenderer = ({
     }, 16); // 약 60fps에 해당하는 지연
 
     return () => clearTimeout(timeoutId);
-  }, [settings.backgroundColor]);
+  }, [settings.backgroundColor, renderScheduler]);
 
   // 카메라 위치 동기화
   useEffect(() => {
@@ -450,8 +572,40 @@ export const useThreeRenderer = ({
       const camera = cameraRef.current;
       camera.position.set(settings.cameraPositionX, settings.cameraPositionY, settings.cameraPositionZ);
       controlsRef.current.update();
+      renderScheduler.requestRender();
+      scheduleLevelOfDetailUpdate();
     }
-  }, [settings.cameraPositionX, settings.cameraPositionY, settings.cameraPositionZ]);
+  }, [settings.cameraPositionX, settings.cameraPositionY, settings.cameraPositionZ, renderScheduler, scheduleLevelOfDetailUpdate]);
+
+  // 컨트롤 관성(damping) 처리: 프레임이 돌 때마다 업데이트하고, 움직이면 change 이벤트로 다음 프레임 요청
+  useEffect(() => {
+    return renderScheduler.addFrameCallback(() => {
+      controlsRef.current?.update();
+      return false;
+    });
+  }, [renderScheduler]);
+
+  // 설정이 바뀌면 다시 그림
+  useEffect(() => {
+    renderScheduler.requestRender();
+  }, [settings, renderScheduler]);
+
+  // 연속 렌더링 강제 (디버그/외부 애니메이션용)
+  useEffect(() => {
+    renderScheduler.setContinuous('settings', Boolean(settings.continuousRendering));
+  }, [settings.continuousRendering, renderScheduler]);
+
+  // 언마운트 시 렌더 루프 중지 및 도형 GPU 자원 해제
+  useEffect(() => {
+    return () => {
+      renderScheduler.stop();
+      clearTimeout(levelOfDetailTimerRef.current);
+      if (instancedGridRef.current) {
+        disposeInstancedGrid(instancedGridRef.current);
+        instancedGridRef.current = null;
+      }
+    };
+  }, [renderScheduler]);
 
   return {
     // Refs
@@ -461,7 +615,8 @@ export const useThreeRenderer = ({
     cameraRef,
     controlsRef,
     circlesRef,
-    animationIdRef,
+    renderScheduler,
+    colorGroupCounts,
     
     // Functions
     initSceneWithControlType,
@@ -469,8 +624,10 @@ export const useThreeRenderer = ({
     updateColors,
     updateTransforms,
     resetCameraPosition,
-    animate,
+    startRenderLoop,
     handleResize,
+    setMaxQuality,
     getConfig,
+    mapGridPoint,
   };
 };
@@ -2,7 +2,124 @@ import * as THREE from 'three';
 
 export enum ShapeType {
   Circle = 'circle',
-  Rectangle = 'rectangle'
+  Rectangle = 'rectangle',
+  Polygon = 'polygon',
+  RoundedRectangle = 'roundedRectangle',
+  Custom = 'custom'
+}
+
+export type GridLayout =
+  | 'rectangular'
+  | 'hexagonal'
+  | 'brick'
+  | 'diamond'
+  | 'polar'
+  | 'concentric'
+  | 'spiral'
+  | 'scatter';
+
+// 크기 변조 곡선 (0~1 진행도 → 0~1 강도)
+export type ScaleCurveType = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'sine' | 'bulge' | 'custom';
+
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+export interface ScaleCurve {
+  type: ScaleCurveType;
+  waves?: number; // sine 곡선의 주기 수
+  points?: CurvePoint[]; // custom 곡선의 제어점 (x 오름차순)
+}
+
+// 행 또는 열을 따라 도형 크기를 factor배까지 변화시키는 설정
+export interface AxisScaling {
+  enabled: boolean;
+  factor: number;
+  curve: ScaleCurve;
+}
+
+// 돌출(입체) 설정
+export interface ExtrusionConfig {
+  depth: number; // 베벨을 포함한 전체 두께 (0이면 평면)
+  bevelEnabled: boolean;
+  bevelSize: number;
+  bevelSegments: number;
+}
+
+// 격자를 감쌀 곡면 종류
+export type SurfaceMapping = 'cylinder' | 'sphere' | 'torus' | 'cone' | 'saddle';
+
+export interface SurfaceParams {
+  curvature: number; // 0이면 평면, 1이면 완전한 곡면
+  radius: number; // 구/원뿔 밑면/토러스 중심원의 반지름, 안장면은 곡률 반지름
+  minorRadius?: number; // 토러스 튜브 반지름
+  coneAngle?: number; // 원뿔 옆면 기울기 (도)
+}
+
+// 변형기 (곡면/오브젝트 변환 이후 순서대로 적용)
+export type DeformerType = 'sineWave' | 'noise' | 'twist' | 'taper';
+
+interface DeformerBase {
+  id: string;
+  type: DeformerType;
+  enabled: boolean;
+}
+
+// 사인파: 격자 X 또는 Y를 따라 도형을 법선 방향으로 밀어냄
+export interface SineWaveDeformer extends DeformerBase {
+  type: 'sineWave';
+  axis: 'x' | 'y';
+  amplitude: number;
+  frequency: number; // 격자 단위 길이당 주기 수
+  phase: number; // 라디안
+}
+
+// 노이즈: 시드 기반 3D 노이즈로 도형을 법선 방향으로 밀고 기울임
+export interface NoiseDeformer extends DeformerBase {
+  type: 'noise';
+  amplitude: number;
+  scale: number; // 노이즈 주파수 (클수록 촘촘함)
+  tilt: number; // 최대 기울기 (라디안)
+  evolution: number; // 노이즈 공간의 세 번째 축 위치
+  seed: number;
+}
+
+// 비틀기: 행/열 인덱스에 따라 격자 축을 중심으로 점점 더 회전 (리본처럼)
+export interface TwistDeformer extends DeformerBase {
+  type: 'twist';
+  axis: 'x' | 'y'; // x: 열을 따라 X축 중심으로, y: 행을 따라 Y축 중심으로 회전
+  angle: number; // 처음부터 끝까지의 전체 회전량 (라디안)
+}
+
+// 테이퍼: 행/열 인덱스에 따라 도형이 한쪽 끝으로 갈수록 작아짐
+export interface TaperDeformer extends DeformerBase {
+  type: 'taper';
+  axis: 'x' | 'y';
+  amount: number; // 양수면 끝 쪽, 음수면 시작 쪽이 작아짐 (-1 ~ 1)
+}
+
+export type Deformer = SineWaveDeformer | NoiseDeformer | TwistDeformer | TaperDeformer;
+
+export type HalftoneColorMode = 'none' | 'nearestGroup' | 'direct';
+
+// 색상 그룹 배정 방식
+export type ColorStrategy =
+  | 'random'
+  | 'checkerboard'
+  | 'rowStripes'
+  | 'columnStripes'
+  | 'diagonal'
+  | 'radial'
+  | 'noise'
+  | 'noNeighbors';
+
+export interface ColorStrategyOptions {
+  strategy: ColorStrategy;
+  exactQuotas: boolean; // random에서 빈도를 정확한 셀 수 비율로 사용
+  bandWidth: number; // 줄무늬/체커보드 한 칸의 셀 수
+  noiseScale: number; // 노이즈 군집 크기 (작을수록 큰 덩어리)
+  neighborDistance: number; // 이웃으로 보는 셀 간 거리
 }
 
 export interface CircleData {
@@ -10,10 +127,12 @@ export interface CircleData {
   colorGroup: number;
   columnIndex: number;
   rowIndex: number;
-  mesh?: THREE.Group; // Changed from THREE.Mesh to THREE.Group to support morphing
-  // New properties for shape morphing
-  currentShapeType?: ShapeType;
-  lastRotationCheck?: number; // Track last rotation for shape changing
+  orientation?: number; // 방사형 배치에서 반지름 방향을 향하는 Z 회전값
+  jitter?: { rotation: number; scale: number }; // 셀별 무작위 회전/크기 (위치 지터는 position에 반영됨)
+  sizeScale?: number; // 셀별 도형 크기 배율 (하프톤 등)
+  sampledColor?: { r: number; g: number; b: number }; // 이미지에서 샘플링한 채우기 색상
+  circleSegments?: number; // 화면상 크기로 정한 원 분할 수 (적응형 세분화)
+  mesh?: THREE.Object3D; // 셀 변환을 담는 객체 (인스턴스 렌더링에서는 씬에 추가되지 않는 프록시)
 }
 
 export interface GuiControls {
@@ -83,8 +202,25 @@ export interface CircleGridConfig {
   circleRadius: number;
   rectangleWidth: number;
   rectangleHeight: number;
+  polygonSides?: number;
+  polygonRotation?: number;
+  cornerRadius?: number;
+  customSvg?: string;
   rowSpacing: number;
   colSpacing: number;
+  layout?: GridLayout;
+  brickOffset?: number;
+  spiralCount?: number;
+  spiralAngle?: number;
+  scatterMinDistance?: number;
+  layoutSeed?: number;
+  widthScaleCurve?: ScaleCurve;
+  heightScaling?: AxisScaling;
+  radiusScaling?: AxisScaling & { axis: 'columns' | 'rows' };
+  focalScaling?: AxisScaling & { x: number; y: number; radius: number };
+  extrusion?: ExtrusionConfig;
+  groupExtrusionDepths?: number[]; // 색상 그룹별 돌출 깊이 (extrusion.depth 대신 사용)
+  circleSegments?: number; // 원/테두리 링의 분할 수 (채우기와 테두리가 같은 값을 사용)
 }
 
 export interface ColorRGBA {
@@ -94,24 +230,108 @@ export interface ColorRGBA {
   a: number;
 }
 
+// 그라디언트 채우기
+export type GradientType = 'none' | 'linear' | 'radial';
+
+export interface GradientStop {
+  offset: number; // 0~1
+  color: ColorRGBA;
+}
+
+export interface GradientFill {
+  type: GradientType; // none이면 단색 채우기 (정지점은 다시 켤 때를 위해 유지)
+  stops: GradientStop[];
+  angle: number; // linear 방향 (도)
+  space: 'cell' | 'grid'; // 셀마다 반복 또는 격자 전체에 걸침
+}
+
+// 팔레트 생성기의 색상 조화 규칙
+export type HarmonyRule = 'complementary' | 'triadic' | 'analogous' | 'splitComplementary' | 'tetradic';
+
+// 색상 그룹 (셀은 빈도 비율에 따라 그룹에 배정되고, 그룹의 색상/돌출 깊이를 사용)
+export interface ColorGroup {
+  id: string;
+  frequency: number;
+  syncColors: boolean; // 테두리를 채우기 색상과 맞춤
+  fill: ColorRGBA;
+  stroke: ColorRGBA;
+  extrusionDepth: number;
+  gradient?: GradientFill;
+  locked?: boolean; // 팔레트 생성기가 색상을 바꾸지 않음
+}
+
 export interface AppSettings {
   // Structure
   rows: number;
   cols: number;
   rowSpacing: number;
   colSpacing: number;
+  gridLayout: GridLayout;
+  brickOffset: number;
+  spiralCount: number;
+  spiralAngle: number;
+  orientToRadius: boolean;
+  scatterMinDistance: number;
+  jitterPosition: number;
+  jitterRotation: number;
+  jitterScale: number;
+  jitterSeed: number;
+  shapeSeed: number; // 흩뿌리기 배치 등 도형 배치용 난수 시드 (색상/지터 시드와 독립)
   shapeType: ShapeType;
   circleRadius: number;
   rectangleWidth: number;
   rectangleHeight: number;
+  polygonSides: number;
+  polygonRotation: number;
+  cornerRadius: number;
+  customSvg: string;
   enableWidthScaling: boolean;
   widthScaleFactor: number;
+  widthScaleCurve: ScaleCurveType;
+  widthScaleWaves: number;
+  widthScalePoints: CurvePoint[];
+  enableHeightScaling: boolean;
+  heightScaleFactor: number;
+  heightScaleCurve: ScaleCurveType;
+  heightScaleWaves: number;
+  heightScalePoints: CurvePoint[];
+  enableRadiusScaling: boolean;
+  radiusScaleFactor: number;
+  radiusScaleAxis: 'columns' | 'rows';
+  radiusScaleCurve: ScaleCurveType;
+  radiusScaleWaves: number;
+  radiusScalePoints: CurvePoint[];
+  enableFocalScaling: boolean;
+  focalPointX: number;
+  focalPointY: number;
+  focalRadius: number;
+  focalScaleFactor: number;
+  focalScaleCurve: ScaleCurveType;
+  focalScaleWaves: number;
+  focalScalePoints: CurvePoint[];
+  showFocalHandle: boolean;
   borderThickness: number;
+  extrusionEnabled: boolean;
+  bevelEnabled: boolean;
+  bevelSize: number;
+  bevelSegments: number;
 
   // Transforms
+  surfaceMapping: SurfaceMapping;
   cylinderAxis: 'x' | 'y';
   cylinderCurvature: number;
   cylinderRadius: number;
+  sphereCurvature: number;
+  sphereRadius: number;
+  torusCurvature: number;
+  torusMajorRadius: number;
+  torusMinorRadius: number;
+  coneCurvature: number;
+  coneRadius: number;
+  coneAngle: number;
+  saddleCurvature: number;
+  saddleRadius: number;
+  deformers: Deformer[];
   objectPositionX: number;
   objectPositionY: number;
   objectPositionZ: number;
@@ -122,20 +342,24 @@ export interface AppSettings {
   // Animation
   animationSpeed: number;
 
+  // Halftone
+  halftoneEnabled: boolean;
+  halftoneImage: string; // 축소된 PNG data URL
+  halftoneMinScale: number;
+  halftoneInvert: boolean;
+  halftoneColorMode: HalftoneColorMode;
+
   // Appearance
   backgroundColor: string;
-  frequency1: number;
-  syncColors1: boolean;
-  fill1: ColorRGBA;
-  stroke1: ColorRGBA;
-  frequency2: number;
-  syncColors2: boolean;
-  fill2: ColorRGBA;
-  stroke2: ColorRGBA;
-  frequency3: number;
-  syncColors3: boolean;
-  fill3: ColorRGBA;
-  stroke3: ColorRGBA;
+  colorGroups: ColorGroup[];
+  colorStrategy: ColorStrategy;
+  exactColorQuotas: boolean;
+  colorBandWidth: number;
+  colorNoiseScale: number;
+  harmonyRule: HarmonyRule;
+  harmonyBaseHue: number; // 도
+  harmonyLightness: number; // OKLCH L (0~1)
+  harmonyChroma: number; // OKLCH C
 
   // Camera
   cameraPositionX: number;
@@ -143,6 +367,13 @@ export interface AppSettings {
   cameraPositionZ: number;
   cameraControlType: 'trackball' | 'orbit';
 
+  // Tessellation
+  adaptiveTessellation?: boolean; // 화면상 크기에 따라 원 분할 수 조절
+
+  // Debug
+  showRenderStats?: boolean;
+  continuousRendering?: boolean; // 변경이 없어도 매 프레임 렌더링
+
   // Color seed
   colorSeed?: number;
 }
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { CircleData } from '../types';
+import { getCellKeys, getCellOccurrences } from './cellDiff';
+
+const cell = (rowIndex: number, columnIndex: number): CircleData => ({
+  position: { x: columnIndex, y: rowIndex, z: 0 },
+  colorGroup: 0,
+  rowIndex,
+  columnIndex
+});
+
+const createGrid = (rows: number, cols: number): CircleData[] =>
+  Array.from({ length: rows * cols }, (_, index) => cell(Math.floor(index / cols), index % cols));
+
+describe('getCellOccurrences', () => {
+  it('counts repeated (row, col) pairs in order', () => {
+    expect(getCellOccurrences([cell(0, 0), cell(0, 1), cell(0, 0), cell(0, 0), cell(0, 1)])).toEqual([0, 0, 1, 2, 1]);
+  });
+});
+
+describe('getCellKeys', () => {
+  it('uses "row:col" and suffixes repeats with #n', () => {
+    expect(getCellKeys([cell(1, 2), cell(1, 2), cell(2, 1)])).toEqual(['1:2', '1:2#1', '2:1']);
+  });
+
+  it('gives every cell a unique key', () => {
+    const keys = getCellKeys([...createGrid(3, 4), cell(0, 0), cell(2, 3)]);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('keeps the keys of existing cells when a row is added', () => {
+    const before = getCellKeys(createGrid(12, 5));
+    const after = getCellKeys(createGrid(13, 5));
+
+    expect(after.slice(0, before.length)).toEqual(before);
+    expect(after.slice(before.length)).toEqual(['12:0', '12:1', '12:2', '12:3', '12:4']);
+  });
+});
@@ -0,0 +1,26 @@
+import { CircleData } from '../types';
+
+/**
+ * 같은 (행, 열)을 가진 셀 중 몇 번째인지 반환합니다.
+ * 동심원/나선처럼 같은 (행, 열)에 여러 셀이 있는 배치에서 셀을 구분하는 데 사용합니다.
+ */
+export const getCellOccurrences = (circles: CircleData[]): number[] => {
+  const occurrences = new Map<string, number>();
+
+  return circles.map(circle => {
+    const base = `${circle.rowIndex}:${circle.columnIndex}`;
+    const count = occurrences.get(base) ?? 0;
+    occurrences.set(base, count + 1);
+    return count;
+  });
+};
+
+// 셀마다 (행, 열) 기반의 고유 키
+export const getCellKeys = (circles: CircleData[]): string[] => {
+  const occurrences = getCellOccurrences(circles);
+
+  return circles.map((circle, index) => {
+    const base = `${circle.rowIndex}:${circle.columnIndex}`;
+    return occurrences[index] === 0 ? base : `${base}#${occurrences[index]}`;
+  });
+};
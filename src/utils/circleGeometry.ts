@@ -1,8 +1,23 @@
 import * as THREE from 'three';
-import { CircleData, CircleGridConfig, ShapeType } from '../types';
-
-export const createCircleGeometry = (radius: number): THREE.BufferGeometry => {
-  const geometry = new THREE.CircleGeometry(radius, 512);
+import { CircleData, CircleGridConfig, ColorStrategyOptions, ExtrusionConfig, ScaleCurve, ShapeType } from '../types';
+import { assignPatternColorGroups, getFrequencyThresholds, pickGroupByValue } from './colorStrategies';
+import { insetContour } from './contourUtils';
+import {
+  createSvgShapeGeometry,
+  createSvgShapeStrokeGeometry,
+  createSvgShapes,
+  createSvgStrokeShapes
+} from './svgShape';
+import { gridLayoutStrategies } from './gridLayouts';
+import { getCellOccurrences } from './cellDiff';
+import { createCellRandom, hashCell, hashToUnit } from './random';
+import { calculateCurveScale, evaluateScaleCurve } from './scaleCurves';
+
+// 원 분할 수의 최대값 (확대해도 모서리가 보이지 않는 수준, 내보내기 품질)
+export const MAX_CIRCLE_SEGMENTS = 512;
+
+export const createCircleGeometry = (radius: number, segments: number = MAX_CIRCLE_SEGMENTS): THREE.BufferGeometry => {
+  const geometry = new THREE.CircleGeometry(radius, segments);
   return geometry;
 };
 
@@ -11,54 +26,212 @@ export const createRectangleGeometry = (width: number, height: number): THREE.Bu
   return geometry;
 };
 
+// 둥근 모서리 사각형 윤곽선을 path에 그립니다 (반지름은 짧은 변의 절반으로 제한)
+const traceRoundedRectangle = <T extends THREE.Path>(path: T, width: number, height: number, radius: number): T => {
+  const halfWidth = width / 2;
+  const halfHeight = height / 2;
+  const r = Math.max(0, Math.min(radius, halfWidth, halfHeight));
+
+  path.moveTo(-halfWidth + r, -halfHeight);
+  path.lineTo(halfWidth - r, -halfHeight);
+  if (r > 0) path.absarc(halfWidth - r, -halfHeight + r, r, -Math.PI / 2, 0, false);
+  path.lineTo(halfWidth, halfHeight - r);
+  if (r > 0) path.absarc(halfWidth - r, halfHeight - r, r, 0, Math.PI / 2, false);
+  path.lineTo(-halfWidth + r, halfHeight);
+  if (r > 0) path.absarc(-halfWidth + r, halfHeight - r, r, Math.PI / 2, Math.PI, false);
+  path.lineTo(-halfWidth, -halfHeight + r);
+  if (r > 0) path.absarc(-halfWidth + r, -halfHeight + r, r, Math.PI, Math.PI * 1.5, false);
+
+  return path;
+};
+
+const ROUNDED_CORNER_SEGMENTS = 16;
+
+// 돌출된 채우기를 테두리 안쪽으로 넣기 위한 배율
+const EXTRUDED_FILL_INSET_SCALE = 0.99;
+
+export const createRoundedRectangleGeometry = (width: number, height: number, radius: number): THREE.BufferGeometry => {
+  const shape = traceRoundedRectangle(new THREE.Shape(), width, height, radius);
+  return new THREE.ShapeGeometry(shape, ROUNDED_CORNER_SEGMENTS);
+};
+
+// 정다각형 꼭짓점 생성 (첫 꼭짓점은 위쪽을 향하고 rotation만큼 회전)
+export const createPolygonPoints = (
+  radius: number,
+  sides: number,
+  rotation: number = 0,
+  widthScale: number = 1,
+  heightScale: number = 1
+): THREE.Vector2[] => {
+  const count = Math.max(3, Math.round(sides));
+  const points: THREE.Vector2[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const angle = Math.PI / 2 + rotation + (i / count) * Math.PI * 2;
+    points.push(new THREE.Vector2(
+      Math.cos(angle) * radius * widthScale,
+      Math.sin(angle) * radius * heightScale
+    ));
+  }
+
+  return points;
+};
+
+export const createPolygonGeometry = (
+  radius: number,
+  sides: number,
+  rotation: number,
+  widthScale: number = 1,
+  heightScale: number = 1
+): THREE.BufferGeometry => {
+  const shape = new THREE.Shape(createPolygonPoints(radius, sides, rotation, widthScale, heightScale));
+  return new THREE.ShapeGeometry(shape);
+};
+
 export const calculateScaledWidth = (
   baseWidth: number,
   columnIndex: number,
   totalColumns: number,
   scaleFactor: number,
-  enableScaling: boolean
+  enableScaling: boolean,
+  curve: ScaleCurve = { type: 'linear' }
 ): number => {
   if (!enableScaling || totalColumns <= 1) {
     return baseWidth;
   }
 
-  // Calculate progression from 0 to 1 across columns
-  const progression = columnIndex / (totalColumns - 1);
+  // Apply scaling: start at baseWidth, scale up by factor along the curve
+  return baseWidth * calculateCurveScale(columnIndex, totalColumns, scaleFactor, curve);
+};
 
-  // Apply scaling: start at baseWidth, scale up by factor
-  return baseWidth * (1 + (scaleFactor - 1) * progression);
+// 도형 크기 관련 값에 배율을 곱한 셀별 설정 (간격과 격자 크기는 그대로)
+export const scaleGridConfig = (config: CircleGridConfig, scale: number): CircleGridConfig => {
+  if (scale === 1) return config;
+  return {
+    ...config,
+    circleRadius: config.circleRadius * scale,
+    rectangleWidth: config.rectangleWidth * scale,
+    rectangleHeight: config.rectangleHeight * scale,
+    cornerRadius: config.cornerRadius !== undefined ? config.cornerRadius * scale : undefined,
+  };
 };
 
-export const createShapeGeometry = (config: CircleGridConfig, columnIndex?: number, enableWidthScaling?: boolean, widthScaleFactor?: number): THREE.BufferGeometry => {
-  switch (config.shapeType) {
-    case ShapeType.Circle:
-      return createCircleGeometry(config.circleRadius);
-    case ShapeType.Rectangle: {
-      const width = columnIndex !== undefined && enableWidthScaling
-        ? calculateScaledWidth(config.rectangleWidth, columnIndex, config.cols, widthScaleFactor || 1, enableWidthScaling)
-        : config.rectangleWidth;
-      return createRectangleGeometry(width, config.rectangleHeight);
-    }
-    default:
-      return createCircleGeometry(config.circleRadius);
-  }
+// 셀별 설정: 크기 배율(하프톤 등)과 색상 그룹별 돌출 깊이 적용
+export const resolveCellConfig = (config: CircleGridConfig, circle: CircleData): CircleGridConfig => {
+  const scaled = scaleGridConfig(config, circle.sizeScale ?? 1);
+  const groupDepth = config.groupExtrusionDepths?.[circle.colorGroup];
+  if (!scaled.extrusion || groupDepth === undefined) return scaled;
+  return { ...scaled, extrusion: { ...scaled.extrusion, depth: groupDepth } };
 };
 
-export const createCircleMaterial = (fillColor: string, strokeColor: string): THREE.Material[] => {
-  const fillMaterial = new THREE.MeshBasicMaterial({
-    color: fillColor,
-    side: THREE.DoubleSide
-  });
+// 열/행 위치에 따른 셀의 가로/세로 배율
+const getCellAspectScale = (
+  config: CircleGridConfig,
+  columnIndex?: number,
+  rowIndex?: number,
+  enableWidthScaling?: boolean,
+  widthScaleFactor?: number
+): { width: number; height: number } => {
+  const width = columnIndex !== undefined && enableWidthScaling
+    ? calculateScaledWidth(1, columnIndex, config.cols, widthScaleFactor || 1, enableWidthScaling, config.widthScaleCurve)
+    : 1;
 
-  const strokeMaterial = new THREE.MeshBasicMaterial({
-    color: strokeColor,
-    side: THREE.DoubleSide
-  });
+  const heightScaling = config.heightScaling;
+  const height = rowIndex !== undefined && heightScaling?.enabled
+    ? calculateCurveScale(rowIndex, config.rows, heightScaling.factor, heightScaling.curve)
+    : 1;
 
-  return [fillMaterial, strokeMaterial];
+  return { width, height };
 };
 
-export const createRectangleStrokeGeometry = (width: number, height: number, thickness: number): THREE.BufferGeometry => {
+// 반지름 스케일링: 선택한 축을 따라 도형 전체 크기를 변화시키는 배율
+const getRadiusScale = (config: CircleGridConfig, columnIndex?: number, rowIndex?: number): number => {
+  const scaling = config.radiusScaling;
+  if (!scaling?.enabled) return 1;
+
+  const index = scaling.axis === 'rows' ? rowIndex : columnIndex;
+  if (index === undefined) return 1;
+
+  const total = scaling.axis === 'rows' ? config.rows : config.cols;
+  return calculateCurveScale(index, total, scaling.factor, scaling.curve);
+};
+
+// 초점 스케일링: 초점에서 반경 안쪽일수록 크기를 factor배에 가깝게 변화시키는 배율
+const getFocalScale = (config: CircleGridConfig, position?: { x: number; y: number }): number => {
+  const scaling = config.focalScaling;
+  if (!scaling?.enabled || !position) return 1;
+
+  const distance = Math.hypot(position.x - scaling.x, position.y - scaling.y);
+  const proximity = 1 - Math.min(distance / Math.max(scaling.radius, 1e-6), 1);
+  return 1 + (scaling.factor - 1) * evaluateScaleCurve(scaling.curve, proximity);
+};
+
+/**
+ * 셀의 크기 배율을 도형 전체에 고르게 적용되는 부분(uniform: 하프톤, 반지름, 초점 스케일링)과
+ * 지오메트리 자체를 바꾸는 가로/세로 비율(width, height)로 나눠 계산합니다.
+ * 인스턴스 렌더링에서 uniform은 인스턴스 행렬에, 비율은 공유 지오메트리에 반영됩니다.
+ */
+export const getCellShapeScale = (
+  config: CircleGridConfig,
+  circle: CircleData,
+  enableWidthScaling?: boolean,
+  widthScaleFactor?: number
+): { uniform: number; width: number; height: number } => ({
+  uniform: (circle.sizeScale ?? 1)
+    * getRadiusScale(config, circle.columnIndex, circle.rowIndex)
+    * getFocalScale(config, circle.position),
+  ...getCellAspectScale(config, circle.columnIndex, circle.rowIndex, enableWidthScaling, widthScaleFactor),
+});
+
+// 가로/세로 비율이 정해진 셀의 채우기 지오메트리 (셀별 크기 배율은 이미 config에 반영된 상태)
+export const createCellFillGeometry = (
+  config: CircleGridConfig,
+  scale: { width: number; height: number }
+): THREE.BufferGeometry => {
+  if (isExtruded(config)) {
+    const geometry = createExtrudedGeometry(
+      createFillOutlines(config, scale),
+      config.extrusion,
+      Infinity,
+      getExtrudeCurveSegments(config)
+    );
+    // 옆면과 앞뒷면이 테두리와 겹쳐 깜빡이지 않도록 테두리 안쪽으로 아주 조금 줄임
+    geometry.scale(EXTRUDED_FILL_INSET_SCALE, EXTRUDED_FILL_INSET_SCALE, EXTRUDED_FILL_INSET_SCALE);
+    return geometry;
+  }
+
+  switch (config.shapeType) {
+    case ShapeType.Circle:
+      return createCircleGeometry(config.circleRadius, config.circleSegments);
+    case ShapeType.Rectangle:
+      return createRectangleGeometry(config.rectangleWidth * scale.width, config.rectangleHeight * scale.height);
+    case ShapeType.Polygon:
+      return createPolygonGeometry(
+        config.circleRadius,
+        config.polygonSides ?? 6,
+        config.polygonRotation ?? 0,
+        scale.width,
+        scale.height
+      );
+    case ShapeType.RoundedRectangle:
+      return createRoundedRectangleGeometry(
+        config.rectangleWidth * scale.width,
+        config.rectangleHeight * scale.height,
+        config.cornerRadius ?? 0
+      );
+    case ShapeType.Custom:
+      // 직사각형과 같은 크기(rectangleWidth × rectangleHeight)에 맞춤
+      return createSvgShapeGeometry(
+        config.customSvg ?? '',
+        config.rectangleWidth * scale.width,
+        config.rectangleHeight * scale.height
+      ) ?? createCircleGeometry(config.circleRadius, config.circleSegments);
+    default:
+      return createCircleGeometry(config.circleRadius, config.circleSegments);
+  }
+};
+
+const createRectangleStrokeShape = (width: number, height: number, thickness: number): THREE.Shape => {
   // 더 간단한 방법: Shape과 holes를 사용해서 테두리 생성
   const shape = new THREE.Shape();
 
@@ -84,91 +257,335 @@ export const createRectangleStrokeGeometry = (width: number, height: number, thi
     shape.holes.push(hole);
   }
 
-  const geometry = new THREE.ShapeGeometry(shape);
+  return shape;
+};
+
+export const createRectangleStrokeGeometry = (width: number, height: number, thickness: number): THREE.BufferGeometry => {
+  const geometry = new THREE.ShapeGeometry(createRectangleStrokeShape(width, height, thickness));
   return geometry;
 };
 
-export const createShapeStrokeGeometry = (config: CircleGridConfig, borderThickness: number, columnIndex?: number, enableWidthScaling?: boolean, widthScaleFactor?: number): THREE.BufferGeometry => {
+const createRoundedRectangleStrokeShape = (
+  width: number,
+  height: number,
+  radius: number,
+  thickness: number
+): THREE.Shape => {
+  const outerRadius = Math.max(0, Math.min(radius, width / 2, height / 2));
+  const shape = traceRoundedRectangle(new THREE.Shape(), width, height, outerRadius);
+
+  // 직사각형 테두리와 같은 기준의 절대 두께
+  const absoluteThickness = Math.min(width, height) * thickness;
+  const innerWidth = width - 2 * absoluteThickness;
+  const innerHeight = height - 2 * absoluteThickness;
+
+  if (innerWidth > 0 && innerHeight > 0) {
+    // 안쪽 모서리 반지름을 두께만큼 줄여야 모서리에서도 테두리 두께가 일정함
+    const innerRadius = Math.max(0, outerRadius - absoluteThickness);
+    shape.holes.push(traceRoundedRectangle(new THREE.Path(), innerWidth, innerHeight, innerRadius));
+  }
+
+  return shape;
+};
+
+export const createRoundedRectangleStrokeGeometry = (
+  width: number,
+  height: number,
+  radius: number,
+  thickness: number
+): THREE.BufferGeometry => {
+  return new THREE.ShapeGeometry(
+    createRoundedRectangleStrokeShape(width, height, radius, thickness),
+    ROUNDED_CORNER_SEGMENTS
+  );
+};
+
+const createPolygonStrokeShape = (
+  radius: number,
+  sides: number,
+  rotation: number,
+  thickness: number,
+  widthScale: number = 1,
+  heightScale: number = 1
+): THREE.Shape => {
+  const outer = createPolygonPoints(radius, sides, rotation, widthScale, heightScale);
+  const shape = new THREE.Shape(outer);
+
+  // 원형 링과 같은 기준(반지름 비율)의 절대 두께로 안쪽 윤곽선 생성
+  const inner = insetContour(outer, radius * thickness);
+  if (inner.length > 0) {
+    shape.holes.push(new THREE.Path(inner));
+  }
+
+  return shape;
+};
+
+export const createPolygonStrokeGeometry = (
+  radius: number,
+  sides: number,
+  rotation: number,
+  thickness: number,
+  widthScale: number = 1,
+  heightScale: number = 1
+): THREE.BufferGeometry => {
+  return new THREE.ShapeGeometry(createPolygonStrokeShape(radius, sides, rotation, thickness, widthScale, heightScale));
+};
+
+// 원 윤곽선 (돌출용)
+const createCircleShape = (radius: number): THREE.Shape =>
+  new THREE.Shape().absarc(0, 0, radius, 0, Math.PI * 2, false);
+
+const createCircleStrokeShape = (radius: number, thickness: number): THREE.Shape => {
+  const shape = createCircleShape(radius);
+  const innerRadius = radius * (1 - thickness);
+  if (innerRadius > 0) {
+    shape.holes.push(new THREE.Path().absarc(0, 0, innerRadius, 0, Math.PI * 2, true));
+  }
+  return shape;
+};
+
+// 채우기 윤곽선 목록 (돌출 지오메트리용)
+const createFillOutlines = (config: CircleGridConfig, scale: { width: number; height: number }): THREE.Shape[] => {
+  switch (config.shapeType) {
+    case ShapeType.Rectangle:
+      return [traceRoundedRectangle(new THREE.Shape(), config.rectangleWidth * scale.width, config.rectangleHeight * scale.height, 0)];
+    case ShapeType.Polygon:
+      return [new THREE.Shape(createPolygonPoints(
+        config.circleRadius,
+        config.polygonSides ?? 6,
+        config.polygonRotation ?? 0,
+        scale.width,
+        scale.height
+      ))];
+    case ShapeType.RoundedRectangle:
+      return [traceRoundedRectangle(
+        new THREE.Shape(),
+        config.rectangleWidth * scale.width,
+        config.rectangleHeight * scale.height,
+        config.cornerRadius ?? 0
+      )];
+    case ShapeType.Custom:
+      return createSvgShapes(
+        config.customSvg ?? '',
+        config.rectangleWidth * scale.width,
+        config.rectangleHeight * scale.height
+      ) ?? [createCircleShape(config.circleRadius)];
+    case ShapeType.Circle:
+    default:
+      return [createCircleShape(config.circleRadius)];
+  }
+};
+
+// 테두리 윤곽선 목록과 테두리 폭 (돌출 지오메트리용, 폭은 베벨 크기 제한에 사용)
+const createStrokeOutlines = (
+  config: CircleGridConfig,
+  borderThickness: number,
+  scale: { width: number; height: number }
+): { shapes: THREE.Shape[]; strokeWidth: number } => {
   switch (config.shapeType) {
-    case ShapeType.Circle: {
-      const innerRadius = config.circleRadius * (1 - borderThickness);
-      return new THREE.RingGeometry(innerRadius, config.circleRadius, 32);
-    }
     case ShapeType.Rectangle: {
-      const width = columnIndex !== undefined && enableWidthScaling
-        ? calculateScaledWidth(config.rectangleWidth, columnIndex, config.cols, widthScaleFactor || 1, enableWidthScaling)
-        : config.rectangleWidth;
-      return createRectangleStrokeGeometry(width, config.rectangleHeight, borderThickness);
+      const width = config.rectangleWidth * scale.width;
+      const height = config.rectangleHeight * scale.height;
+      return {
+        shapes: [createRectangleStrokeShape(width, height, borderThickness)],
+        strokeWidth: Math.min(width, height) * borderThickness
+      };
     }
-    default: {
-      const innerRadius = config.circleRadius * (1 - borderThickness);
-      return new THREE.RingGeometry(innerRadius, config.circleRadius, 32);
+    case ShapeType.Polygon:
+      return {
+        shapes: [createPolygonStrokeShape(
+          config.circleRadius,
+          config.polygonSides ?? 6,
+          config.polygonRotation ?? 0,
+          borderThickness,
+          scale.width,
+          scale.height
+        )],
+        strokeWidth: config.circleRadius * borderThickness
+      };
+    case ShapeType.RoundedRectangle: {
+      const width = config.rectangleWidth * scale.width;
+      const height = config.rectangleHeight * scale.height;
+      return {
+        shapes: [createRoundedRectangleStrokeShape(width, height, config.cornerRadius ?? 0, borderThickness)],
+        strokeWidth: Math.min(width, height) * borderThickness
+      };
+    }
+    case ShapeType.Custom: {
+      const width = config.rectangleWidth * scale.width;
+      const height = config.rectangleHeight * scale.height;
+      // 직사각형 테두리와 같은 기준의 절대 두께
+      const strokeWidth = Math.min(width, height) * borderThickness;
+      return {
+        shapes: createSvgStrokeShapes(config.customSvg ?? '', width, height, strokeWidth)
+          ?? [createCircleStrokeShape(config.circleRadius, borderThickness)],
+        strokeWidth
+      };
     }
+    case ShapeType.Circle:
+    default:
+      return {
+        shapes: [createCircleStrokeShape(config.circleRadius, borderThickness)],
+        strokeWidth: config.circleRadius * borderThickness
+      };
   }
 };
 
-export const generateCirclePositions = (config: CircleGridConfig): CircleData[] => {
-  const { rows, cols, rowSpacing, colSpacing } = config;
-  const circles: CircleData[] = [];
-
-  const totalWidth = (cols - 1) * colSpacing;
-  const totalHeight = (rows - 1) * rowSpacing;
-
-  for (let row = 0; row < rows; row++) {
-    for (let col = 0; col < cols; col++) {
-      const x = col * colSpacing - totalWidth / 2;
-      const y = row * rowSpacing - totalHeight / 2;
-      const z = 0;
-
-      circles.push({
-        position: { x, y, z },
-        colorGroup: 0, // Will be assigned later
-        columnIndex: col,
-        rowIndex: row
-      });
-    }
+// 돌출 시 곡선 구간 분할 수 (옆면 정점 수가 분할 수에 비례하므로 평면보다 낮게 유지)
+// 둥근 사각형은 모서리마다 따로 분할되므로 더 적게 사용
+// 원은 한 바퀴가 분할 수의 2배로 나뉘므로 평면 원 분할 수의 절반을 쓰되 상한을 둠
+const getExtrudeCurveSegments = (config: CircleGridConfig): number => {
+  if (config.shapeType === ShapeType.RoundedRectangle) return 8;
+  if (config.shapeType === ShapeType.Circle) {
+    return Math.min(Math.max((config.circleSegments ?? MAX_CIRCLE_SEGMENTS) / 2, 8), 64);
   }
+  return 32;
+};
 
-  return circles;
+/**
+ * 윤곽선을 돌출시켜 z=0을 중심으로 하는 입체 지오메트리를 생성합니다.
+ * 베벨은 윤곽선 안쪽으로 깎이도록 하여 평면일 때와 외곽 크기가 같고,
+ * 베벨을 포함한 전체 두께가 depth가 되도록 합니다.
+ */
+const createExtrudedGeometry = (
+  shapes: THREE.Shape[],
+  extrusion: ExtrusionConfig,
+  maxBevelSize: number,
+  curveSegments: number
+): THREE.BufferGeometry => {
+  const bevelSize = extrusion.bevelEnabled
+    ? Math.max(0, Math.min(extrusion.bevelSize, maxBevelSize, extrusion.depth / 2))
+    : 0;
+  const coreDepth = Math.max(extrusion.depth - bevelSize * 2, 1e-4);
+
+  const geometry = new THREE.ExtrudeGeometry(shapes, {
+    depth: coreDepth,
+    curveSegments,
+    bevelEnabled: bevelSize > 0,
+    bevelSize,
+    bevelThickness: bevelSize,
+    bevelOffset: -bevelSize,
+    bevelSegments: Math.max(1, Math.round(extrusion.bevelSegments))
+  });
+  geometry.translate(0, 0, -coreDepth / 2);
+  return geometry;
 };
 
-// Seeded random number generator (simple LCG)
-class SeededRandom {
-  private seed: number;
+// 셀의 돌출 깊이가 0보다 큰지 확인
+const isExtruded = (config: CircleGridConfig): config is CircleGridConfig & { extrusion: ExtrusionConfig } =>
+  config.extrusion !== undefined && config.extrusion.depth > 0;
 
-  constructor(seed: number) {
-    this.seed = seed;
+// 가로/세로 비율이 정해진 셀의 테두리 지오메트리
+export const createCellStrokeGeometry = (
+  config: CircleGridConfig,
+  borderThickness: number,
+  scale: { width: number; height: number }
+): THREE.BufferGeometry => {
+  if (isExtruded(config)) {
+    const { shapes, strokeWidth } = createStrokeOutlines(config, borderThickness, scale);
+    // 베벨이 테두리 폭을 넘으면 윤곽선이 뒤집히므로 폭의 절반 미만으로 제한
+    return createExtrudedGeometry(shapes, config.extrusion, strokeWidth * 0.45, getExtrudeCurveSegments(config));
   }
 
-  next(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-    return this.seed / 233280;
+  switch (config.shapeType) {
+    case ShapeType.Circle: {
+      const innerRadius = config.circleRadius * (1 - borderThickness);
+      return new THREE.RingGeometry(innerRadius, config.circleRadius, config.circleSegments ?? MAX_CIRCLE_SEGMENTS);
+    }
+    case ShapeType.Rectangle:
+      return createRectangleStrokeGeometry(
+        config.rectangleWidth * scale.width,
+        config.rectangleHeight * scale.height,
+        borderThickness
+      );
+    case ShapeType.Polygon:
+      return createPolygonStrokeGeometry(
+        config.circleRadius,
+        config.polygonSides ?? 6,
+        config.polygonRotation ?? 0,
+        borderThickness,
+        scale.width,
+        scale.height
+      );
+    case ShapeType.RoundedRectangle:
+      return createRoundedRectangleStrokeGeometry(
+        config.rectangleWidth * scale.width,
+        config.rectangleHeight * scale.height,
+        config.cornerRadius ?? 0,
+        borderThickness
+      );
+    case ShapeType.Custom: {
+      const width = config.rectangleWidth * scale.width;
+      const height = config.rectangleHeight * scale.height;
+      return createSvgShapeStrokeGeometry(
+        config.customSvg ?? '',
+        width,
+        height,
+        Math.min(width, height) * borderThickness
+      ) ?? new THREE.RingGeometry(
+        config.circleRadius * (1 - borderThickness),
+        config.circleRadius,
+        config.circleSegments ?? MAX_CIRCLE_SEGMENTS
+      );
+    }
+    default: {
+      const innerRadius = config.circleRadius * (1 - borderThickness);
+      return new THREE.RingGeometry(innerRadius, config.circleRadius, config.circleSegments ?? MAX_CIRCLE_SEGMENTS);
+    }
   }
-}
+};
+
+export const generateCirclePositions = (config: CircleGridConfig): CircleData[] => {
+  const strategy = gridLayoutStrategies[config.layout ?? 'rectangular'] ?? gridLayoutStrategies.rectangular;
+  return strategy(config);
+};
+
+/**
+ * 셀마다 위치, 회전, 크기에 시드 기반 무작위 흔들림을 적용합니다.
+ * position은 바로 이동시키고 회전/크기는 circle.jitter에 저장해 변환 단계에서 적용합니다.
+ * 난수는 (시드, 행, 열)로 셀마다 정해지므로 행/열을 추가해도 기존 셀의 흔들림은 그대로입니다.
+ */
+export const applyJitter = (
+  circles: CircleData[],
+  amounts: { position: number; rotation: number; scale: number },
+  seed: number
+): void => {
+  const occurrences = getCellOccurrences(circles);
+
+  circles.forEach((circle, index) => {
+    const random = createCellRandom(seed, 'jitter', circle.rowIndex, circle.columnIndex, occurrences[index]);
+    // 값이 0이어도 항상 같은 순서로 난수를 뽑아 다른 항목의 결과가 바뀌지 않도록 함
+    const offsetX = random.nextSigned() * amounts.position;
+    const offsetY = random.nextSigned() * amounts.position;
+    const rotation = random.nextSigned() * amounts.rotation;
+    const scale = 1 + random.nextSigned() * amounts.scale;
+
+    circle.position.x += offsetX;
+    circle.position.y += offsetY;
+    circle.jitter = { rotation, scale: Math.max(scale, 0.01) };
+  });
+};
 
 export const assignColorGroups = (
   circles: CircleData[],
-  frequencies: [number, number, number, number], // 4개 그룹 지원
-  seed?: number
+  frequencies: number[], // 그룹별 빈도 (그룹 수만큼)
+  seed?: number,
+  strategyOptions?: ColorStrategyOptions // 없거나 random이면 빈도 가중치로 무작위 배정
 ): void => {
-  // 4개 그룹 총 빈도 계산
-  const totalFreq = frequencies[0] + frequencies[1] + frequencies[2] + frequencies[3];
-  const normalizedFreq = frequencies.map(f => f / totalFreq);
+  if (strategyOptions && (strategyOptions.strategy !== 'random' || strategyOptions.exactQuotas)) {
+    assignPatternColorGroups(circles, frequencies, seed ?? 0, strategyOptions);
+    return;
+  }
 
-  // Use seeded random if seed is provided, otherwise use Math.random
-  const random = seed !== undefined ? new SeededRandom(seed) : null;
+  const thresholds = getFrequencyThresholds(frequencies);
+  const occurrences = getCellOccurrences(circles);
 
-  circles.forEach(circle => {
-    const rand = random ? random.next() : Math.random();
-    if (rand < normalizedFreq[0]) {
-      circle.colorGroup = 0;
-    } else if (rand < normalizedFreq[0] + normalizedFreq[1]) {
-      circle.colorGroup = 1;
-    } else if (rand < normalizedFreq[0] + normalizedFreq[1] + normalizedFreq[2]) {
-      circle.colorGroup = 2;
-    } else {
-      circle.colorGroup = 3; // 4번째 그룹 추가
-    }
+  // 시드가 있으면 셀마다 (시드, 행, 열) 해시, 없으면 Math.random
+  circles.forEach((circle, index) => {
+    const rand = seed !== undefined
+      ? hashToUnit(hashCell(seed, 'color', circle.rowIndex, circle.columnIndex, occurrences[index]))
+      : Math.random();
+    circle.colorGroup = pickGroupByValue(thresholds, frequencies, rand);
   });
 };
 
@@ -215,89 +632,3 @@ export const applyCylindricalTransform = (
     }
   });
 };
-
-export const applyAxisRotations = (
-  circles: CircleData[],
-  rotationX: number,
-  rotationZ: number
-): void => {
-  circles.forEach(circle => {
-    if (!circle.mesh) return;
-
-    circle.mesh.rotation.x = rotationX;
-    circle.mesh.rotation.z = rotationZ;
-  });
-};
-
-// 도형 변경 지원 함수
-export const updateShapeGeometry = (
-  circle: CircleData,
-  config: CircleGridConfig,
-  newShapeType: ShapeType,
-  borderThickness: number,
-  enableWidthScaling?: boolean,
-  widthScaleFactor?: number
-): void => {
-  if (!circle.mesh) return;
-
-  // 새로운 설정으로 지오메트리 생성
-  const newConfig = { ...config, shapeType: newShapeType };
-  
-  const fillGeometry = createShapeGeometry(
-    newConfig,
-    circle.columnIndex,
-    enableWidthScaling,
-    widthScaleFactor
-  );
-  
-  const strokeGeometry = createShapeStrokeGeometry(
-    newConfig,
-    borderThickness,
-    circle.columnIndex,
-    enableWidthScaling,
-    widthScaleFactor
-  );
-
-  // 기존 메시 업데이트
-  const children = circle.mesh.children;
-  if (children.length >= 2) {
-    // Fill mesh 업데이트
-    const fillMesh = children[0] as THREE.Mesh;
-    if (fillMesh.geometry) {
-      fillMesh.geometry.dispose();
-      fillMesh.geometry = fillGeometry;
-    }
-
-    // Stroke mesh 업데이트
-    const strokeMesh = children[1] as THREE.Mesh;
-    if (strokeMesh.geometry) {
-      strokeMesh.geometry.dispose();
-      strokeMesh.geometry = strokeGeometry;
-    }
-  }
-
-  // 현재 도형 타입 업데이트
-  circle.currentShapeType = newShapeType;
-};
-
-// 모든 도형의 지오메트리를 업데이트
-export const updateAllShapesGeometry = (
-  circles: CircleData[],
-  config: CircleGridConfig,
-  borderThickness: number,
-  enableWidthScaling?: boolean,
-  widthScaleFactor?: number
-): void => {
-  circles.forEach(circle => {
-    if (circle.currentShapeType && circle.currentShapeType !== config.shapeType) {
-      updateShapeGeometry(
-        circle,
-        config,
-        config.shapeType,
-        borderThickness,
-        enableWidthScaling,
-        widthScaleFactor
-      );
-    }
-  });
-};
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultColorGroups, DEFAULT_EXTRUSION_DEPTH, migrateColorGroups, moveColorGroup } from './colorGroups';
+
+describe('migrateColorGroups', () => {
+  it('converts the legacy flat keys into a colorGroups array', () => {
+    const red = { r: 255, g: 0, b: 0, a: 1 };
+    const blue = { r: 0, g: 0, b: 255, a: 0.5 };
+    const white = { r: 255, g: 255, b: 255, a: 1 };
+
+    const migrated = migrateColorGroups({
+      rows: 3,
+      fill1: red,
+      stroke1: white,
+      frequency1: 2,
+      syncColors1: true,
+      extrusionDepth1: 0.8,
+      fill2: blue,
+    });
+
+    expect(migrated).toEqual({
+      rows: 3,
+      colorGroups: [
+        expect.objectContaining({ id: 'group-1', fill: red, stroke: white, frequency: 2, syncColors: true, extrusionDepth: 0.8 }),
+        expect.objectContaining({ id: 'group-2', fill: blue, frequency: 1, syncColors: false, extrusionDepth: DEFAULT_EXTRUSION_DEPTH }),
+      ],
+    });
+  });
+
+  it('keeps an existing colorGroups array and drops leftover flat keys', () => {
+    const colorGroups = createDefaultColorGroups().slice(0, 2);
+    const migrated = migrateColorGroups({ colorGroups, fill1: { r: 1, g: 2, b: 3, a: 1 }, frequency3: 4 });
+
+    expect(migrated).toEqual({ colorGroups });
+  });
+
+  it('returns settings without legacy keys unchanged', () => {
+    const settings = { rows: 2, cols: 8 };
+    expect(migrateColorGroups(settings)).toBe(settings);
+  });
+});
+
+describe('moveColorGroup', () => {
+  it('moves a group and ignores moves past either end', () => {
+    const groups = createDefaultColorGroups();
+    const ids = (list: typeof groups) => list.map(group => group.id);
+
+    expect(ids(moveColorGroup(groups, 0, 2))).toEqual(['group-2', 'group-3', 'group-1', 'group-4']);
+    expect(moveColorGroup(groups, 0, -1)).toBe(groups);
+    expect(moveColorGroup(groups, 3, 4)).toBe(groups);
+  });
+});
@@ -0,0 +1,92 @@
+import { ColorGroup, ColorRGBA } from '../types';
+
+// 기본 돌출 깊이
+export const DEFAULT_EXTRUSION_DEPTH = 0.3;
+
+const DEFAULT_STROKE: ColorRGBA = { r: 0, g: 0, b: 0, a: 1.0 };
+
+// 새 그룹을 추가할 때 차례로 사용하는 채우기 색상 (기본 4개 그룹 색상 다음부터 이어짐)
+const GROUP_PALETTE: ColorRGBA[] = [
+  { r: 0, g: 122, b: 255, a: 0.8 },
+  { r: 52, g: 199, b: 89, a: 0.8 },
+  { r: 175, g: 82, b: 222, a: 0.8 },
+  { r: 255, g: 159, b: 10, a: 0.8 },
+  { r: 255, g: 59, b: 48, a: 0.8 },
+  { r: 90, g: 200, b: 250, a: 0.8 },
+  { r: 255, g: 204, b: 0, a: 0.8 },
+  { r: 255, g: 45, b: 85, a: 0.8 },
+];
+
+// index번째 그룹의 기본 채우기 색상
+export const getGroupPaletteColor = (index: number): ColorRGBA => ({ ...GROUP_PALETTE[index % GROUP_PALETTE.length] });
+
+// 그룹 기본 테두리 색상
+export const getDefaultStrokeColor = (): ColorRGBA => ({ ...DEFAULT_STROKE });
+
+const createGroupId = () => `group-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// 기본값으로 새 색상 그룹 생성 (index번째 팔레트 색상 사용)
+export const createColorGroup = (index: number, overrides: Partial<ColorGroup> = {}): ColorGroup => ({
+  id: createGroupId(),
+  frequency: 1,
+  syncColors: false,
+  fill: getGroupPaletteColor(index),
+  stroke: getDefaultStrokeColor(),
+  extrusionDepth: DEFAULT_EXTRUSION_DEPTH,
+  ...overrides,
+});
+
+// 기본 색상 그룹 4개
+export const createDefaultColorGroups = (): ColorGroup[] =>
+  [0, 1, 2, 3].map(index => createColorGroup(index, { id: `group-${index + 1}` }));
+
+// 예전 평면 키 (fill1..4, stroke1..4, frequency1..4, syncColors1..4, extrusionDepth1..4)
+const LEGACY_GROUP_COUNT = 4;
+const LEGACY_KEY_PREFIXES = ['fill', 'stroke', 'frequency', 'syncColors', 'extrusionDepth'];
+
+const isLegacyKey = (key: string) =>
+  LEGACY_KEY_PREFIXES.some(prefix => new RegExp(`^${prefix}[1-${LEGACY_GROUP_COUNT}]$`).test(key));
+
+/**
+ * 예전 평면 키로 저장된 색상 그룹 설정을 colorGroups 배열로 옮깁니다.
+ * 이미 colorGroups가 있으면 그대로 두고 남은 평면 키만 지웁니다.
+ * 평면 키가 하나도 없으면 colorGroups를 추가하지 않습니다 (기존 값이 유지됨).
+ */
+export const migrateColorGroups = <T extends Record<string, unknown>>(settings: T): T => {
+  const legacyKeys = Object.keys(settings).filter(isLegacyKey);
+  if (legacyKeys.length === 0) return settings;
+
+  const migrated: Record<string, unknown> = { ...settings };
+  legacyKeys.forEach(key => delete migrated[key]);
+
+  if (!Array.isArray(settings.colorGroups)) {
+    const groups: ColorGroup[] = [];
+    for (let index = 1; index <= LEGACY_GROUP_COUNT; index++) {
+      const fill = settings[`fill${index}`] as ColorRGBA | undefined;
+      if (!fill) continue;
+
+      groups.push(createColorGroup(index - 1, {
+        id: `group-${index}`,
+        frequency: (settings[`frequency${index}`] as number | undefined) ?? 1,
+        syncColors: Boolean(settings[`syncColors${index}`]),
+        fill,
+        stroke: (settings[`stroke${index}`] as ColorRGBA | undefined) ?? { ...DEFAULT_STROKE },
+        extrusionDepth: (settings[`extrusionDepth${index}`] as number | undefined) ?? DEFAULT_EXTRUSION_DEPTH,
+      }));
+    }
+    if (groups.length > 0) {
+      migrated.colorGroups = groups;
+    }
+  }
+
+  return migrated as T;
+};
+
+// 배열에서 한 항목을 옮김 (색상 그룹 순서 변경)
+export const moveColorGroup = (groups: ColorGroup[], from: number, to: number): ColorGroup[] => {
+  if (to < 0 || to >= groups.length || from === to) return groups;
+  const next = [...groups];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
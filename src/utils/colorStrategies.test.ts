@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { CircleData, ColorStrategyOptions } from '../types';
+import { assignPatternColorGroups, getQuotaCounts } from './colorStrategies';
+
+const createCircles = (rows: number, cols: number): CircleData[] =>
+  Array.from({ length: rows * cols }, (_, index) => ({
+    position: { x: (index % cols) * 2, y: Math.floor(index / cols) * 2, z: 0 },
+    colorGroup: 0,
+    rowIndex: Math.floor(index / cols),
+    columnIndex: index % cols
+  }));
+
+const quotaOptions: ColorStrategyOptions = {
+  strategy: 'random',
+  exactQuotas: true,
+  bandWidth: 1,
+  noiseScale: 0.15,
+  neighborDistance: 2.2
+};
+
+const countGroups = (circles: CircleData[], groupCount: number) =>
+  circles.reduce((counts, circle) => {
+    counts[circle.colorGroup]++;
+    return counts;
+  }, Array<number>(groupCount).fill(0));
+
+describe('getQuotaCounts', () => {
+  it('splits the total by frequency share using largest remainders', () => {
+    expect(getQuotaCounts([1, 1, 1, 1], 36)).toEqual([9, 9, 9, 9]);
+    expect(getQuotaCounts([1, 1, 1], 10)).toEqual([4, 3, 3]);
+    expect(getQuotaCounts([3, 1], 7)).toEqual([5, 2]);
+  });
+
+  it('always sums to the total', () => {
+    [[0.3, 1.7, 2.2], [5, 0.1], [1, 2, 3, 4, 5]].forEach(frequencies => {
+      [0, 1, 13, 97].forEach(total => {
+        expect(getQuotaCounts(frequencies, total).reduce((sum, count) => sum + count, 0)).toBe(total);
+      });
+    });
+  });
+
+  it('gives nothing to zero or negative frequencies', () => {
+    expect(getQuotaCounts([0, 2, -1], 5)).toEqual([0, 5, 0]);
+  });
+
+  it('puts every cell in the first group when all frequencies are zero', () => {
+    expect(getQuotaCounts([0, 0, 0], 6)).toEqual([6, 0, 0]);
+  });
+});
+
+describe('assignPatternColorGroups with exact quotas', () => {
+  it('matches the quota counts exactly', () => {
+    const circles = createCircles(3, 12);
+    assignPatternColorGroups(circles, [1, 1, 1, 1], 1234, quotaOptions);
+
+    expect(countGroups(circles, 4)).toEqual([9, 9, 9, 9]);
+  });
+
+  it('is deterministic for a seed', () => {
+    const first = createCircles(5, 7);
+    const second = createCircles(5, 7);
+    assignPatternColorGroups(first, [2, 1, 1], 99, quotaOptions);
+    assignPatternColorGroups(second, [2, 1, 1], 99, quotaOptions);
+
+    expect(first.map(circle => circle.colorGroup)).toEqual(second.map(circle => circle.colorGroup));
+  });
+});
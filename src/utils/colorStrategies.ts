@@ -0,0 +1,279 @@
+import { CircleData, ColorStrategy, ColorStrategyOptions } from '../types';
+import { createNoise3D } from './noise';
+import { getCellOccurrences } from './cellDiff';
+import { hashCell, SeededRandom } from './random';
+
+// 반복 패턴 한 주기에 들어가는 최대 칸 수 (빈도 비율이 복잡하면 근사)
+const MAX_SEQUENCE_LENGTH = 24;
+
+// 빈도 합 대비 누적 비율 (빈도가 모두 0이면 전부 0 → 첫 그룹)
+export const getFrequencyThresholds = (frequencies: number[]): number[] => {
+  const totalFreq = frequencies.reduce((sum, frequency) => sum + Math.max(0, frequency), 0);
+  let cumulative = 0;
+  return frequencies.map(frequency => {
+    cumulative += totalFreq > 0 ? Math.max(0, frequency) / totalFreq : 0;
+    return cumulative;
+  });
+};
+
+// 빈도가 0보다 큰 마지막 그룹
+const getLastActiveGroup = (frequencies: number[]): number => {
+  for (let index = frequencies.length - 1; index >= 0; index--) {
+    if (frequencies[index] > 0) return index;
+  }
+  return 0;
+};
+
+// [0, 1) 값을 누적 비율에 따라 그룹으로 변환
+export const pickGroupByValue = (thresholds: number[], frequencies: number[], value: number): number => {
+  const group = thresholds.findIndex(threshold => value < threshold);
+  // 부동소수점 오차로 끝에 걸리면 빈도가 있는 마지막 그룹에 배정
+  return group !== -1 ? group : getLastActiveGroup(frequencies);
+};
+
+/**
+ * 빈도 비율을 정확한 셀 수로 나눕니다 (최대 잉여 방식).
+ * 내림한 몫을 먼저 배정하고, 남은 셀은 나머지가 큰 그룹부터 하나씩 더 줍니다.
+ */
+export const getQuotaCounts = (frequencies: number[], total: number): number[] => {
+  const weights = frequencies.map(frequency => Math.max(0, frequency));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight === 0) {
+    return frequencies.map((_, group) => (group === 0 ? total : 0));
+  }
+
+  const exact = weights.map(weight => (weight / totalWeight) * total);
+  const counts = exact.map(Math.floor);
+  let remaining = total - counts.reduce((sum, count) => sum + count, 0);
+
+  // 나머지가 같으면 앞 그룹 우선
+  const byRemainder = exact
+    .map((value, group) => ({ group, remainder: value - counts[group] }))
+    .sort((a, b) => b.remainder - a.remainder || a.group - b.group);
+  for (let i = 0; remaining > 0; i = (i + 1) % byRemainder.length, remaining--) {
+    counts[byRemainder[i].group]++;
+  }
+
+  return counts;
+};
+
+/**
+ * 빈도를 정확한 할당량으로 쓰고, 셀별 해시 순서로 섞어 배정합니다.
+ * 순서가 셀마다 고정되어 있어 격자가 커져도 할당량 경계 근처의 셀만 그룹이 바뀝니다.
+ */
+const assignQuotaGroups = (circles: CircleData[], frequencies: number[], seed: number): void => {
+  const groups = getQuotaCounts(frequencies, circles.length)
+    .flatMap((count, group) => Array<number>(count).fill(group));
+  const occurrences = getCellOccurrences(circles);
+  const hashes = circles.map((circle, index) =>
+    hashCell(seed, 'color', circle.rowIndex, circle.columnIndex, occurrences[index])
+  );
+  const order = circles.map((_, index) => index).sort((a, b) => hashes[a] - hashes[b] || a - b);
+
+  order.forEach((circleIndex, rank) => {
+    circles[circleIndex].colorGroup = groups[rank];
+  });
+};
+
+/**
+ * 빈도 비율대로 그룹을 반복하는 한 주기를 만듭니다.
+ * 예: 빈도 [2, 1, 1] → [0, 0, 1, 2] (줄무늬/체커보드에서 빈도가 큰 그룹이 더 넓은 띠가 됨)
+ */
+export const createWeightedSequence = (frequencies: number[]): number[] => {
+  const active = frequencies.filter(frequency => frequency > 0);
+  if (active.length === 0) return [0];
+
+  const minFreq = Math.min(...active);
+  let counts = frequencies.map(frequency => (frequency > 0 ? Math.max(1, Math.round(frequency / minFreq)) : 0));
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total > MAX_SEQUENCE_LENGTH) {
+    const ratio = MAX_SEQUENCE_LENGTH / total;
+    counts = counts.map(count => (count > 0 ? Math.max(1, Math.round(count * ratio)) : 0));
+  }
+
+  return counts.flatMap((count, group) => Array<number>(count).fill(group));
+};
+
+// (행, 열) 기반 반복 패턴의 주기 안 위치
+const getBandIndex = (strategy: ColorStrategy, circle: CircleData, bandWidth: number, length: number): number => {
+  const row = Math.floor(circle.rowIndex / bandWidth);
+  const col = Math.floor(circle.columnIndex / bandWidth);
+
+  switch (strategy) {
+    case 'rowStripes':
+      return row;
+    case 'columnStripes':
+      return col;
+    case 'diagonal':
+      return row + col;
+    case 'checkerboard':
+    default:
+      // 홀수 행은 주기의 절반만큼 밀어서 위아래 이웃도 다른 그룹이 되게 함
+      return col + (row % 2) * Math.ceil(length / 2);
+  }
+};
+
+// 격자 중심에서 바깥으로 빈도 비율만큼 고리를 나눔
+const assignRadialGroups = (circles: CircleData[], frequencies: number[]): void => {
+  const thresholds = getFrequencyThresholds(frequencies);
+  const distances = circles.map(({ position }) => Math.hypot(position.x, position.y));
+  const maxDistance = Math.max(...distances, 0);
+
+  circles.forEach((circle, index) => {
+    const value = maxDistance > 0 ? distances[index] / maxDistance : 0;
+    circle.colorGroup = pickGroupByValue(thresholds, frequencies, Math.min(value, 1 - Number.EPSILON));
+  });
+};
+
+// 노이즈 값 순위로 빈도 비율만큼 나눠, 덩어리진 영역을 만들면서도 그룹 비율을 지킴
+const assignNoiseGroups = (
+  circles: CircleData[],
+  frequencies: number[],
+  seed: number,
+  noiseScale: number
+): void => {
+  const noise = createNoise3D(seed);
+  const thresholds = getFrequencyThresholds(frequencies);
+  const values = circles.map(({ position }) => noise(position.x * noiseScale, position.y * noiseScale, 0.5));
+  const order = circles.map((_, index) => index).sort((a, b) => values[a] - values[b]);
+
+  order.forEach((circleIndex, rank) => {
+    circles[circleIndex].colorGroup = pickGroupByValue(thresholds, frequencies, rank / circles.length);
+  });
+};
+
+// 반복 보정 횟수 (탐욕 배정 후 남은 충돌을 줄임)
+const NEIGHBOR_REPAIR_PASSES = 8;
+
+// 셀마다 neighborDistance 이내의 이웃 인덱스 (공간 해시로 탐색)
+const findNeighbors = (circles: CircleData[], neighborDistance: number): number[][] => {
+  const cellSize = Math.max(neighborDistance, 1e-6);
+  const buckets = new Map<string, number[]>();
+  circles.forEach(({ position }, index) => {
+    const key = `${Math.floor(position.x / cellSize)}:${Math.floor(position.y / cellSize)}`;
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(index);
+    } else {
+      buckets.set(key, [index]);
+    }
+  });
+
+  return circles.map(({ position }, index) => {
+    const bucketX = Math.floor(position.x / cellSize);
+    const bucketY = Math.floor(position.y / cellSize);
+    const neighbors: number[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        buckets.get(`${bucketX + dx}:${bucketY + dy}`)?.forEach(other => {
+          if (other === index) return;
+          const { x, y } = circles[other].position;
+          if (Math.hypot(x - position.x, y - position.y) <= neighborDistance) {
+            neighbors.push(other);
+          }
+        });
+      }
+    }
+    return neighbors;
+  });
+};
+
+/**
+ * 이웃(neighborDistance 이내)과 같은 그룹이 되지 않도록 빈도 가중치로 뽑습니다.
+ * 가능한 그룹이 없으면 이웃과 가장 적게 겹치는 그룹을 쓰고, 남은 충돌은 몇 차례 다시 고릅니다.
+ */
+const assignNoNeighborGroups = (
+  circles: CircleData[],
+  frequencies: number[],
+  random: SeededRandom,
+  neighborDistance: number
+): void => {
+  const weights = frequencies.map(frequency => Math.max(0, frequency));
+  const candidates = weights.map((weight, group) => (weight > 0 ? group : -1)).filter(group => group !== -1);
+  if (candidates.length === 0) {
+    circles.forEach(circle => { circle.colorGroup = 0; });
+    return;
+  }
+
+  const neighbors = findNeighbors(circles, neighborDistance);
+  const assigned = new Array<boolean>(circles.length).fill(false);
+
+  // 충돌이 가장 적은 그룹들 중에서 빈도 가중치로 선택
+  const pickGroup = (index: number): number => {
+    const conflicts = new Array<number>(frequencies.length).fill(0);
+    neighbors[index].forEach(other => {
+      if (assigned[other]) conflicts[circles[other].colorGroup]++;
+    });
+
+    const leastConflicts = Math.min(...candidates.map(group => conflicts[group]));
+    const best = candidates.filter(group => conflicts[group] === leastConflicts);
+    if (assigned[index] && best.includes(circles[index].colorGroup)) return circles[index].colorGroup;
+
+    const total = best.reduce((sum, group) => sum + weights[group], 0);
+    let rand = random.next() * total;
+    return best.find(group => (rand -= weights[group]) < 0) ?? best[best.length - 1];
+  };
+
+  circles.forEach((circle, index) => {
+    circle.colorGroup = pickGroup(index);
+    assigned[index] = true;
+  });
+
+  for (let pass = 0; pass < NEIGHBOR_REPAIR_PASSES; pass++) {
+    let changed = false;
+    circles.forEach((circle, index) => {
+      if (!neighbors[index].some(other => circles[other].colorGroup === circle.colorGroup)) return;
+      const group = pickGroup(index);
+      if (group !== circle.colorGroup) {
+        circle.colorGroup = group;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+};
+
+/**
+ * 배색 전략(또는 정확한 할당량 모드)으로 색상 그룹을 배정합니다. 같은 시드면 항상 같은 결과입니다.
+ * 빈도는 전략마다 띠 너비, 고리 두께, 영역 비율, 할당량 또는 뽑기 가중치로 쓰입니다.
+ */
+export const assignPatternColorGroups = (
+  circles: CircleData[],
+  frequencies: number[],
+  seed: number,
+  options: ColorStrategyOptions
+): void => {
+  const { strategy } = options;
+
+  if (strategy === 'radial') {
+    assignRadialGroups(circles, frequencies);
+    return;
+  }
+
+  if (strategy === 'noise') {
+    assignNoiseGroups(circles, frequencies, seed, options.noiseScale);
+    return;
+  }
+
+  if (strategy === 'random') {
+    assignQuotaGroups(circles, frequencies, seed);
+    return;
+  }
+
+  const random = new SeededRandom(seed, 'color');
+
+  if (strategy === 'noNeighbors') {
+    assignNoNeighborGroups(circles, frequencies, random, options.neighborDistance);
+    return;
+  }
+
+  // 줄무늬/체커보드: 시드로 주기의 시작 위치를 정함
+  const sequence = createWeightedSequence(frequencies);
+  const offset = Math.floor(random.next() * sequence.length);
+  const bandWidth = Math.max(1, Math.round(options.bandWidth));
+
+  circles.forEach(circle => {
+    const band = getBandIndex(strategy, circle, bandWidth, sequence.length);
+    circle.colorGroup = sequence[(((band + offset) % sequence.length) + sequence.length) % sequence.length];
+  });
+};
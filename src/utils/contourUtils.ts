@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+
+export const getSignedArea = (points: THREE.Vector2[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+};
+
+/**
+ * 닫힌 윤곽선을 안쪽으로 distance만큼 평행 이동시킨 윤곽선을 반환합니다.
+ * distance가 음수이면 바깥쪽으로 확장합니다.
+ * 각 변을 법선 방향으로 밀고 인접한 변의 교점을 새 꼭짓점으로 사용하므로
+ * 테두리 두께가 모서리에서도 일정하게 유지됩니다.
+ * 윤곽선이 뒤집힐 만큼 두꺼우면 빈 배열을 반환합니다.
+ */
+export const insetContour = (points: THREE.Vector2[], distance: number): THREE.Vector2[] => {
+  const count = points.length;
+  if (count < 3 || distance === 0) return points.map(p => p.clone());
+
+  // 반시계 방향이면 왼쪽 법선이 안쪽
+  const orientation = getSignedArea(points) >= 0 ? 1 : -1;
+  const inwardNormal = (a: THREE.Vector2, b: THREE.Vector2) => {
+    const edge = new THREE.Vector2().subVectors(b, a).normalize();
+    return new THREE.Vector2(-edge.y * orientation, edge.x * orientation);
+  };
+
+  const inset: THREE.Vector2[] = [];
+  for (let i = 0; i < count; i++) {
+    const prev = points[(i - 1 + count) % count];
+    const current = points[i];
+    const next = points[(i + 1) % count];
+
+    const n1 = inwardNormal(prev, current);
+    const n2 = inwardNormal(current, next);
+    // 마이터 길이 = distance / cos(θ/2), 아주 뾰족한 꼭짓점은 길이를 제한
+    const denominator = Math.max(1 + n1.dot(n2), 0.02);
+    const miter = new THREE.Vector2().addVectors(n1, n2).multiplyScalar(distance / denominator);
+
+    inset.push(current.clone().add(miter));
+  }
+
+  // 방향이 뒤집혔거나 면적 변화가 반대라면 유효하지 않은 윤곽선
+  const originalArea = getSignedArea(points);
+  const insetArea = getSignedArea(inset);
+  const shrunk = Math.abs(insetArea) < Math.abs(originalArea);
+  if (Math.sign(insetArea) !== Math.sign(originalArea) || shrunk !== distance > 0) {
+    return [];
+  }
+
+  // 두께가 변 길이를 넘어서면 변의 방향이 반대로 뒤집힘
+  for (let i = 0; i < count; i++) {
+    const j = (i + 1) % count;
+    const originalEdge = new THREE.Vector2().subVectors(points[j], points[i]);
+    const insetEdge = new THREE.Vector2().subVectors(inset[j], inset[i]);
+    if (originalEdge.dot(insetEdge) <= 0) {
+      return [];
+    }
+  }
+
+  return inset;
+};
@@ -0,0 +1,87 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { CircleData, TaperDeformer, TwistDeformer } from '../types';
+import { applyDeformers } from './deformers';
+
+// rows × cols 격자 (간격 2, 원점 중심)의 프록시를 가진 셀
+const createCells = (rows: number, cols: number): CircleData[] =>
+  Array.from({ length: rows * cols }, (_, index) => {
+    const rowIndex = Math.floor(index / cols);
+    const columnIndex = index % cols;
+    const x = (columnIndex - (cols - 1) / 2) * 2;
+    const y = (rowIndex - (rows - 1) / 2) * 2;
+    const mesh = new THREE.Object3D();
+    mesh.userData.originalPosition = { x, y, z: 0 };
+    mesh.position.set(x, y, 0);
+    return { position: { x, y, z: 0 }, colorGroup: 0, columnIndex, rowIndex, mesh };
+  });
+
+const twist = (overrides: Partial<TwistDeformer> = {}): TwistDeformer =>
+  ({ id: 'twist', type: 'twist', enabled: true, axis: 'x', angle: Math.PI, ...overrides });
+
+const taper = (overrides: Partial<TaperDeformer> = {}): TaperDeformer =>
+  ({ id: 'taper', type: 'taper', enabled: true, axis: 'x', amount: 0.5, ...overrides });
+
+const normalOf = (cell: CircleData) => new THREE.Vector3(0, 0, 1).applyQuaternion(cell.mesh!.quaternion);
+
+describe('twist deformer', () => {
+  it('keeps the middle column and turns the ends in opposite directions', () => {
+    const cells = createCells(2, 3);
+    applyDeformers(cells, [twist()]);
+
+    // 위쪽 행 (y = 1): 첫 열은 -90°, 가운데는 그대로, 끝 열은 +90° (X축 중심)
+    const [first, middle, last] = cells.slice(3);
+    expect(first.mesh!.position.y).toBeCloseTo(0);
+    expect(first.mesh!.position.z).toBeCloseTo(-1);
+    expect(middle.mesh!.position.toArray()).toEqual([0, 1, 0]);
+    expect(last.mesh!.position.y).toBeCloseTo(0);
+    expect(last.mesh!.position.z).toBeCloseTo(1);
+  });
+
+  it('rotates each shape with its position', () => {
+    const cells = createCells(2, 3);
+    applyDeformers(cells, [twist()]);
+
+    expect(normalOf(cells[3]).y).toBeCloseTo(1);
+    expect(normalOf(cells[4]).z).toBeCloseTo(1);
+    expect(normalOf(cells[5]).y).toBeCloseTo(-1);
+  });
+
+  it('twists around the current centre of the cells', () => {
+    const cells = createCells(2, 3);
+    cells.forEach(cell => cell.mesh!.position.x += 10);
+    applyDeformers(cells, [twist({ axis: 'y' })]);
+
+    // 가운데 행이 없으므로 두 행 모두 ±90° 회전 후에도 중심은 그대로
+    const center = cells.reduce((sum, cell) => sum.add(cell.mesh!.position), new THREE.Vector3()).divideScalar(cells.length);
+    expect(center.x).toBeCloseTo(10);
+    expect(center.y).toBeCloseTo(0);
+    expect(center.z).toBeCloseTo(0);
+  });
+});
+
+describe('taper deformer', () => {
+  it('shrinks toward the end for positive amounts and toward the start for negative ones', () => {
+    const cells = createCells(1, 3);
+    applyDeformers(cells, [taper()]);
+    expect(cells.map(cell => cell.mesh!.scale.x)).toEqual([1, 0.75, 0.5]);
+
+    const reversed = createCells(1, 3);
+    applyDeformers(reversed, [taper({ amount: -0.5 })]);
+    expect(reversed.map(cell => cell.mesh!.scale.x)).toEqual([0.5, 0.75, 1]);
+  });
+
+  it('follows rows on the y axis and multiplies the existing scale', () => {
+    const cells = createCells(3, 1);
+    cells.forEach(cell => cell.mesh!.scale.setScalar(2));
+    applyDeformers(cells, [taper({ axis: 'y', amount: 1 })]);
+
+    expect(cells.map(cell => cell.mesh!.scale.x)).toEqual([2, 1, 0.02]);
+  });
+
+  it('is skipped when disabled', () => {
+    const cells = createCells(1, 3);
+    applyDeformers(cells, [taper({ enabled: false })]);
+    expect(cells.every(cell => cell.mesh!.scale.x === 1)).toBe(true);
+  });
+});
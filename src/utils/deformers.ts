@@ -0,0 +1,182 @@
+import * as THREE from 'three';
+import {
+  CircleData,
+  Deformer,
+  DeformerType,
+  NoiseDeformer,
+  SineWaveDeformer,
+  TaperDeformer,
+  TwistDeformer
+} from '../types';
+import { createNoise3D } from './noise';
+
+// 노이즈 함수 캐시 (시드마다 순열을 다시 만들지 않도록)
+// 시드 슬라이더를 움직이면 시드가 계속 바뀌므로 최근에 쓴 것만 남기는 LRU로 크기 제한
+const MAX_CACHED_NOISE = 8;
+const noiseCache = new Map<number, ReturnType<typeof createNoise3D>>();
+
+const getNoise = (seed: number) => {
+  let noise = noiseCache.get(seed);
+  if (noise) {
+    // Map은 삽입 순서를 유지하므로 다시 넣어 가장 최근 항목으로 이동
+    noiseCache.delete(seed);
+  } else {
+    noise = createNoise3D(seed);
+    if (noiseCache.size >= MAX_CACHED_NOISE) {
+      noiseCache.delete(noiseCache.keys().next().value!);
+    }
+  }
+  noiseCache.set(seed, noise);
+  return noise;
+};
+
+// 기울기 채널을 변위 채널과 다른 노이즈 영역에서 샘플링하기 위한 오프셋
+const TILT_SAMPLE_OFFSET = 37.7;
+
+const localNormal = new THREE.Vector3();
+const tiltRotation = new THREE.Quaternion();
+const tiltEuler = new THREE.Euler();
+
+// 도형의 현재 법선(+Z) 방향으로 distance만큼 이동
+const pushAlongNormal = (mesh: THREE.Object3D, distance: number) => {
+  localNormal.set(0, 0, 1).applyQuaternion(mesh.quaternion);
+  mesh.position.addScaledVector(localNormal, distance);
+};
+
+const applySineWave = (circles: CircleData[], deformer: SineWaveDeformer) => {
+  circles.forEach(circle => {
+    if (!circle.mesh) return;
+    const original = circle.mesh.userData.originalPosition || circle.position;
+    const coordinate = deformer.axis === 'x' ? original.x : original.y;
+    const offset = Math.sin(coordinate * deformer.frequency * Math.PI * 2 + deformer.phase) * deformer.amplitude;
+    pushAlongNormal(circle.mesh, offset);
+  });
+};
+
+const applyNoise = (circles: CircleData[], deformer: NoiseDeformer) => {
+  const noise = getNoise(deformer.seed);
+
+  circles.forEach(circle => {
+    if (!circle.mesh) return;
+    const original = circle.mesh.userData.originalPosition || circle.position;
+    const x = original.x * deformer.scale;
+    const y = original.y * deformer.scale;
+    const z = deformer.evolution;
+
+    pushAlongNormal(circle.mesh, noise(x, y, z) * deformer.amplitude);
+
+    if (deformer.tilt !== 0) {
+      tiltEuler.set(
+        noise(x + TILT_SAMPLE_OFFSET, y, z) * deformer.tilt,
+        noise(x, y + TILT_SAMPLE_OFFSET, z) * deformer.tilt,
+        0
+      );
+      circle.mesh.quaternion.multiply(tiltRotation.setFromEuler(tiltEuler));
+    }
+  });
+};
+
+// 축 방향(열 또는 행) 인덱스를 0~1 진행도로 변환하는 함수
+const createIndexProgress = (circles: CircleData[], axis: 'x' | 'y') => {
+  const getIndex = (circle: CircleData) => (axis === 'x' ? circle.columnIndex : circle.rowIndex);
+  const maxIndex = circles.reduce((max, circle) => Math.max(max, getIndex(circle)), 0);
+  return (circle: CircleData) => (maxIndex > 0 ? getIndex(circle) / maxIndex : 0);
+};
+
+const twistAxis = new THREE.Vector3();
+const twistPivot = new THREE.Vector3();
+const twistRotation = new THREE.Quaternion();
+
+const applyTwist = (circles: CircleData[], deformer: TwistDeformer) => {
+  const progressOf = createIndexProgress(circles, deformer.axis);
+  twistAxis.set(deformer.axis === 'x' ? 1 : 0, deformer.axis === 'y' ? 1 : 0, 0);
+
+  // 회전축은 현재 도형들의 중심을 지남
+  const meshes = circles.filter(circle => circle.mesh);
+  if (meshes.length === 0) return;
+  twistPivot.set(0, 0, 0);
+  meshes.forEach(circle => twistPivot.add(circle.mesh!.position));
+  twistPivot.divideScalar(meshes.length);
+
+  meshes.forEach(circle => {
+    const mesh = circle.mesh!;
+    // 가운데 인덱스는 그대로 두고 양 끝으로 갈수록 반대 방향으로 회전
+    twistRotation.setFromAxisAngle(twistAxis, (progressOf(circle) - 0.5) * deformer.angle);
+
+    mesh.position.sub(twistPivot).applyQuaternion(twistRotation).add(twistPivot);
+    mesh.quaternion.premultiply(twistRotation);
+  });
+};
+
+const applyTaper = (circles: CircleData[], deformer: TaperDeformer) => {
+  const progressOf = createIndexProgress(circles, deformer.axis);
+  const amount = THREE.MathUtils.clamp(deformer.amount, -1, 1);
+
+  circles.forEach(circle => {
+    if (!circle.mesh) return;
+    const progress = progressOf(circle);
+    const shrink = amount >= 0 ? amount * progress : -amount * (1 - progress);
+    circle.mesh.scale.multiplyScalar(Math.max(1 - shrink, 0.01));
+  });
+};
+
+/**
+ * 켜져 있는 변형기를 목록 순서대로 적용합니다.
+ * 곡면/오브젝트 변환이 끝난 뒤 호출해야 하며, 변위는 각 도형의 법선 방향으로 적용됩니다.
+ */
+export const applyDeformers = (circles: CircleData[], deformers: Deformer[] = []): void => {
+  deformers.forEach(deformer => {
+    if (!deformer.enabled) return;
+
+    switch (deformer.type) {
+      case 'sineWave':
+        applySineWave(circles, deformer);
+        break;
+      case 'noise':
+        applyNoise(circles, deformer);
+        break;
+      case 'twist':
+        applyTwist(circles, deformer);
+        break;
+      case 'taper':
+        applyTaper(circles, deformer);
+        break;
+    }
+  });
+};
+
+// 새 변형기의 기본값
+export const createDeformer = (type: DeformerType): Deformer => {
+  const id = `${type}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+  if (type === 'noise') {
+    return {
+      id,
+      type,
+      enabled: true,
+      amplitude: 1,
+      scale: 0.15,
+      tilt: 0.3,
+      evolution: 0,
+      seed: Math.floor(Math.random() * 1000000)
+    };
+  }
+
+  if (type === 'twist') {
+    return { id, type, enabled: true, axis: 'x', angle: Math.PI };
+  }
+
+  if (type === 'taper') {
+    return { id, type, enabled: true, axis: 'x', amount: 0.5 };
+  }
+
+  return {
+    id,
+    type,
+    enabled: true,
+    axis: 'x',
+    amplitude: 1,
+    frequency: 0.05,
+    phase: 0
+  };
+};
@@ -0,0 +1,265 @@
+import * as THREE from 'three';
+import { ColorRGBA, GradientFill, GradientStop } from '../types';
+
+// 그라디언트 색상표 텍스처 너비 (정지점 사이를 선형 보간해 미리 구움)
+const RAMP_WIDTH = 256;
+
+// 격자 전체 범위 (루트 기준 XY, 그라디언트를 격자 전체에 걸칠 때 사용)
+export interface GridBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface GradientUniforms {
+  uGradientEnabled: THREE.IUniform<number>;
+  uGradientRadial: THREE.IUniform<number>;
+  uGradientGrid: THREE.IUniform<number>;
+  uGradientDirection: THREE.IUniform<THREE.Vector2>;
+  uGradientBounds: THREE.IUniform<THREE.Vector4>;
+  uGradientRamp: THREE.IUniform<THREE.DataTexture>;
+}
+
+// 두 개 이상의 정지점이 있는 linear/radial 그라디언트만 사용
+export const isGradientActive = (gradient?: GradientFill): gradient is GradientFill =>
+  !!gradient && gradient.type !== 'none' && gradient.stops.length >= 2;
+
+// 채우기 색상에서 시작하는 기본 그라디언트 (끝 색상은 같은 색의 밝은 톤)
+export const createDefaultGradient = (fill: ColorRGBA): GradientFill => ({
+  type: 'none',
+  angle: 90,
+  space: 'cell',
+  stops: [
+    { offset: 0, color: { ...fill } },
+    {
+      offset: 1,
+      color: {
+        r: Math.round(fill.r + (255 - fill.r) * 0.6),
+        g: Math.round(fill.g + (255 - fill.g) * 0.6),
+        b: Math.round(fill.b + (255 - fill.b) * 0.6),
+        a: fill.a
+      }
+    }
+  ]
+});
+
+// 정지점 사이를 보간한 offset 위치의 색상
+export const sampleGradient = (stops: GradientStop[], offset: number): ColorRGBA => {
+  const sorted = [...stops].sort((a, b) => a.offset - b.offset);
+  if (offset <= sorted[0].offset) return sorted[0].color;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1];
+    const to = sorted[i];
+    if (offset <= to.offset) {
+      const t = to.offset > from.offset ? (offset - from.offset) / (to.offset - from.offset) : 1;
+      return {
+        r: from.color.r + (to.color.r - from.color.r) * t,
+        g: from.color.g + (to.color.g - from.color.g) * t,
+        b: from.color.b + (to.color.b - from.color.b) * t,
+        a: from.color.a + (to.color.a - from.color.a) * t
+      };
+    }
+  }
+  return sorted[sorted.length - 1].color;
+};
+
+const writeRamp = (texture: THREE.DataTexture, stops: GradientStop[]): void => {
+  const data = texture.image.data as Uint8Array;
+  for (let x = 0; x < RAMP_WIDTH; x++) {
+    const { r, g, b, a } = sampleGradient(stops, x / (RAMP_WIDTH - 1));
+    data.set([Math.round(r), Math.round(g), Math.round(b), Math.round(a * 255)], x * 4);
+  }
+  texture.needsUpdate = true;
+};
+
+const createRampTexture = (): THREE.DataTexture => {
+  const texture = new THREE.DataTexture(new Uint8Array(RAMP_WIDTH * 4), RAMP_WIDTH, 1, THREE.RGBAFormat);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.ClampToEdgeWrapping;
+  return texture;
+};
+
+// 인스턴스별 평면 격자 위치와 크기 (x, y, 배율), 곡면/변형기 적용 전 값
+const GRADIENT_GRID_CELL_ATTRIBUTE = 'gradientGridCell';
+
+const GRADIENT_VERTEX_PARS = `
+attribute vec2 gradientCoord;
+#ifdef USE_INSTANCING
+  attribute vec3 gradientGridCell;
+#endif
+varying vec2 vGradientCell;
+varying vec2 vGradientGrid;
+`;
+
+// 격자 기준 좌표는 인스턴스 행렬 대신 평면 셀 위치로 계산 (곡면/변형기가 적용돼도 범위와 어긋나지 않음)
+const GRADIENT_VERTEX = `
+vGradientCell = gradientCoord;
+#ifdef USE_INSTANCING
+  vGradientGrid = gradientGridCell.xy + position.xy * gradientGridCell.z;
+#else
+  vGradientGrid = position.xy;
+#endif
+`;
+
+const GRADIENT_FRAGMENT_PARS = `
+uniform float uGradientEnabled;
+uniform float uGradientRadial;
+uniform float uGradientGrid;
+uniform vec2 uGradientDirection;
+uniform vec4 uGradientBounds;
+uniform sampler2D uGradientRamp;
+varying vec2 vGradientCell;
+varying vec2 vGradientGrid;
+`;
+
+const GRADIENT_FRAGMENT = `
+if (uGradientEnabled > 0.5) {
+  vec2 gradientPoint = vGradientCell;
+  if (uGradientGrid > 0.5) {
+    vec2 gradientSize = max(uGradientBounds.zw - uGradientBounds.xy, vec2(1e-5));
+    gradientPoint = (vGradientGrid - uGradientBounds.xy) / gradientSize * 2.0 - 1.0;
+  }
+  float gradientT = uGradientRadial > 0.5
+    ? length(gradientPoint)
+    : dot(gradientPoint, uGradientDirection) / (abs(uGradientDirection.x) + abs(uGradientDirection.y)) * 0.5 + 0.5;
+  vec4 gradientColor = texture2D(uGradientRamp, vec2(clamp(gradientT, 0.0, 1.0), 0.5));
+  diffuseColor.rgb = gradientColor.rgb;
+  diffuseColor.a *= gradientColor.a;
+}
+`;
+
+/**
+ * 채우기 재질에 그라디언트 셰이더를 덧붙입니다.
+ * 셀 기준은 지오메트리의 gradientCoord(-1~1), 격자 기준은 인스턴스별 평면 셀 위치(gradientGridCell)를 사용하며,
+ * 그라디언트가 꺼져 있으면 기존 인스턴스 색상을 그대로 씁니다.
+ */
+export const enableGradientShader = (material: THREE.Material): void => {
+  const ramp = createRampTexture();
+  const uniforms: GradientUniforms = {
+    uGradientEnabled: { value: 0 },
+    uGradientRadial: { value: 0 },
+    uGradientGrid: { value: 0 },
+    uGradientDirection: { value: new THREE.Vector2(1, 0) },
+    uGradientBounds: { value: new THREE.Vector4(-1, -1, 1, 1) },
+    uGradientRamp: { value: ramp }
+  };
+  material.userData.gradientUniforms = uniforms;
+
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${GRADIENT_VERTEX_PARS}`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>\n${GRADIENT_VERTEX}`);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>\n${GRADIENT_FRAGMENT_PARS}`)
+      .replace('#include <color_fragment>', `#include <color_fragment>\n${GRADIENT_FRAGMENT}`);
+  };
+  material.customProgramCacheKey = () => 'gradientFill';
+
+  // 재질이 캐시에서 해제될 때 색상표 텍스처도 해제
+  material.addEventListener('dispose', () => ramp.dispose());
+};
+
+// 그룹 그라디언트 설정을 재질 uniform에 반영 (정지점이 바뀐 경우에만 색상표를 다시 구움)
+export const setGradientUniforms = (
+  material: THREE.Material,
+  gradient: GradientFill | undefined,
+  bounds: GridBounds
+): void => {
+  const uniforms = material.userData.gradientUniforms as GradientUniforms | undefined;
+  if (!uniforms) return;
+
+  const active = isGradientActive(gradient);
+  uniforms.uGradientEnabled.value = active ? 1 : 0;
+  if (!active) return;
+
+  const angle = THREE.MathUtils.degToRad(gradient.angle);
+  uniforms.uGradientRadial.value = gradient.type === 'radial' ? 1 : 0;
+  uniforms.uGradientGrid.value = gradient.space === 'grid' ? 1 : 0;
+  uniforms.uGradientDirection.value.set(Math.cos(angle), Math.sin(angle));
+  uniforms.uGradientBounds.value.set(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY);
+
+  const stopsKey = JSON.stringify(gradient.stops);
+  if (material.userData.gradientStopsKey !== stopsKey) {
+    material.userData.gradientStopsKey = stopsKey;
+    writeRamp(uniforms.uGradientRamp.value, gradient.stops);
+  }
+};
+
+/**
+ * 지오메트리 경계 상자 기준으로 -1~1 범위의 셀 좌표(gradientCoord)를 추가합니다.
+ * 같은 지오메트리를 공유하는 모든 셀이 같은 값을 쓰므로 캐시된 지오메트리에 한 번만 추가합니다.
+ */
+export const addGradientCoordinates = (geometry: THREE.BufferGeometry): THREE.BufferGeometry => {
+  const position = geometry.getAttribute('position');
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const centerX = (box.min.x + box.max.x) / 2;
+  const centerY = (box.min.y + box.max.y) / 2;
+  const halfX = Math.max((box.max.x - box.min.x) / 2, 1e-6);
+  const halfY = Math.max((box.max.y - box.min.y) / 2, 1e-6);
+
+  const coords = new Float32Array(position.count * 2);
+  for (let i = 0; i < position.count; i++) {
+    coords[i * 2] = (position.getX(i) - centerX) / halfX;
+    coords[i * 2 + 1] = (position.getY(i) - centerY) / halfY;
+  }
+  geometry.setAttribute('gradientCoord', new THREE.BufferAttribute(coords, 2));
+  return geometry;
+};
+
+/**
+ * 캐시된 채우기 지오메트리의 속성을 그대로 공유하면서 묶음별 인스턴스 속성(gradientGridCell)만 더한 지오메트리를 만듭니다.
+ * 해제할 때는 disposeGradientInstanceGeometry로 공유 속성을 남긴 채 인스턴스 속성만 해제해야 합니다.
+ */
+export const createGradientInstanceGeometry = (
+  source: THREE.BufferGeometry,
+  capacity: number
+): THREE.BufferGeometry => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setIndex(source.index);
+  Object.entries(source.attributes).forEach(([name, attribute]) => geometry.setAttribute(name, attribute));
+  source.groups.forEach(group => geometry.addGroup(group.start, group.count, group.materialIndex));
+  geometry.boundingBox = source.boundingBox?.clone() ?? null;
+  geometry.boundingSphere = source.boundingSphere?.clone() ?? null;
+
+  const cells = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+  cells.setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute(GRADIENT_GRID_CELL_ATTRIBUTE, cells);
+  geometry.userData.sourceGeometry = source;
+  return geometry;
+};
+
+// createGradientInstanceGeometry가 감싼 캐시 지오메트리
+export const getSourceGeometry = (geometry: THREE.BufferGeometry): THREE.BufferGeometry =>
+  geometry.userData.sourceGeometry ?? geometry;
+
+// 공유 속성은 원본 지오메트리가 계속 쓰므로 떼어 낸 뒤 해제 (인스턴스 속성과 VAO만 해제됨)
+export const disposeGradientInstanceGeometry = (geometry: THREE.BufferGeometry): void => {
+  Object.keys(geometry.attributes)
+    .filter(name => name !== GRADIENT_GRID_CELL_ATTRIBUTE)
+    .forEach(name => geometry.deleteAttribute(name));
+  geometry.setIndex(null);
+  geometry.dispose();
+};
+
+// 인스턴스 index의 평면 셀 위치와 배율 기록 (호출 후 markGradientCellsUpdated 필요)
+export const setGradientCell = (
+  geometry: THREE.BufferGeometry,
+  index: number,
+  x: number,
+  y: number,
+  scale: number
+): void => {
+  (geometry.getAttribute(GRADIENT_GRID_CELL_ATTRIBUTE) as THREE.InstancedBufferAttribute | undefined)
+    ?.setXYZ(index, x, y, scale);
+};
+
+export const markGradientCellsUpdated = (geometry: THREE.BufferGeometry): void => {
+  const cells = geometry.getAttribute(GRADIENT_GRID_CELL_ATTRIBUTE);
+  if (cells) cells.needsUpdate = true;
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { CircleGridConfig, ShapeType } from '../types';
+import { gridLayoutStrategies } from './gridLayouts';
+
+const createConfig = (overrides: Partial<CircleGridConfig> = {}): CircleGridConfig => ({
+  rows: 4,
+  cols: 5,
+  shapeType: ShapeType.Circle,
+  circleRadius: 0.8,
+  rectangleWidth: 1.6,
+  rectangleHeight: 1.2,
+  rowSpacing: 2,
+  colSpacing: 2,
+  ...overrides
+});
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+describe('gridLayoutStrategies', () => {
+  it('centers the rectangular lattice on the origin', () => {
+    const circles = gridLayoutStrategies.rectangular(createConfig());
+
+    expect(circles).toHaveLength(20);
+    const xs = circles.map(circle => circle.position.x);
+    const ys = circles.map(circle => circle.position.y);
+    expect(Math.min(...xs)).toBeCloseTo(-Math.max(...xs));
+    expect(Math.min(...ys)).toBeCloseTo(-Math.max(...ys));
+  });
+
+  it('packs hexagonal rows so neighbours across rows are one spacing apart', () => {
+    const circles = gridLayoutStrategies.hexagonal(createConfig());
+    const at = (row: number, col: number) =>
+      circles.find(circle => circle.rowIndex === row && circle.columnIndex === col)!.position;
+
+    expect(distance(at(0, 0), at(0, 1))).toBeCloseTo(2);
+    expect(distance(at(0, 0), at(1, 0))).toBeCloseTo(2);
+  });
+
+  it('keeps the diamond lattice square even when row and column spacing differ', () => {
+    const circles = gridLayoutStrategies.diamond(createConfig({ rowSpacing: 5, colSpacing: 2 }));
+    const at = (row: number, col: number) =>
+      circles.find(circle => circle.rowIndex === row && circle.columnIndex === col)!.position;
+
+    // 대각선 이웃은 모두 같은 거리 (45도 회전한 정사각형)
+    const side = distance(at(0, 0), at(1, 0));
+    expect(distance(at(1, 0), at(2, 0))).toBeCloseTo(side);
+    expect(distance(at(0, 1), at(1, 0))).toBeCloseTo(side);
+    expect(side).toBeCloseTo(2 / Math.SQRT2);
+  });
+
+  it('produces the same scatter layout for the same seed', () => {
+    const config = createConfig({ layout: 'scatter', layoutSeed: 42, scatterMinDistance: 1.5 });
+    const first = gridLayoutStrategies.scatter(config);
+    const second = gridLayoutStrategies.scatter(config);
+
+    expect(first.map(circle => circle.position)).toEqual(second.map(circle => circle.position));
+    first.forEach((circle, index) => {
+      first.slice(index + 1).forEach(other => {
+        expect(distance(circle.position, other.position)).toBeGreaterThanOrEqual(1.5 - 1e-9);
+      });
+    });
+  });
+});
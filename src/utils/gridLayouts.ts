@@ -0,0 +1,239 @@
+import { CircleData, CircleGridConfig, GridLayout } from '../types';
+import { SeededRandom } from './random';
+
+type LayoutStrategy = (config: CircleGridConfig) => CircleData[];
+
+interface LatticePoint {
+  x: number;
+  y: number;
+  row: number;
+  col: number;
+}
+
+// 격자점들을 원점 중심으로 옮긴 뒤 CircleData로 변환
+const toCenteredCircles = (points: LatticePoint[]): CircleData[] => {
+  if (points.length === 0) return [];
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  points.forEach(({ x, y }) => {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  });
+
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+
+  return points.map(({ x, y, row, col }) => ({
+    position: { x: x - centerX, y: y - centerY, z: 0 },
+    colorGroup: 0, // Will be assigned later
+    columnIndex: col,
+    rowIndex: row
+  }));
+};
+
+// 행마다 x 오프셋과 y 간격을 달리하는 격자 생성
+const createOffsetLattice = (
+  config: CircleGridConfig,
+  rowOffset: (row: number) => number,
+  rowStep: number
+): CircleData[] => {
+  const { rows, cols, colSpacing } = config;
+  const points: LatticePoint[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    const offset = rowOffset(row);
+    for (let col = 0; col < cols; col++) {
+      points.push({ x: col * colSpacing + offset, y: row * rowStep, row, col });
+    }
+  }
+
+  return toCenteredCircles(points);
+};
+
+// 기본 직사각형 격자
+const rectangularLayout: LayoutStrategy = (config) =>
+  createOffsetLattice(config, () => 0, config.rowSpacing);
+
+// 육각형 패킹: 홀수 행을 반 칸 밀고 행 간격을 √3/2로 좁힘
+const hexagonalLayout: LayoutStrategy = (config) =>
+  createOffsetLattice(
+    config,
+    row => (row % 2 === 1 ? config.colSpacing / 2 : 0),
+    config.rowSpacing * Math.sqrt(3) / 2
+  );
+
+// 벽돌 쌓기: 행마다 brickOffset(열 간격 비율)만큼 누적해서 밀기
+const brickLayout: LayoutStrategy = (config) => {
+  const offset = config.brickOffset ?? 0.5;
+  return createOffsetLattice(
+    config,
+    row => ((row * offset) % 1) * config.colSpacing,
+    config.rowSpacing
+  );
+};
+
+// 다이아몬드 격자: 45도 회전한 정사각 격자 (홀수 행을 반 칸 밀고 행 간격을 절반으로)
+// 두 축이 같은 간격이어야 정사각형이 유지되므로 열 간격만 사용 (행 간격은 무시)
+const diamondLayout: LayoutStrategy = (config) =>
+  createOffsetLattice(
+    config,
+    row => (row % 2 === 1 ? config.colSpacing / 2 : 0),
+    config.colSpacing / 2
+  );
+
+// 원점 기준 극좌표 점을 CircleData로 변환 (orientation: 도형의 위쪽이 반지름 방향을 향하는 각도)
+const createRadialCircle = (radius: number, angle: number, row: number, col: number): CircleData => ({
+  position: { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius, z: 0 },
+  colorGroup: 0, // Will be assigned later
+  columnIndex: col,
+  rowIndex: row,
+  orientation: angle - Math.PI / 2
+});
+
+// 극좌표: 행은 고리(ring), 열은 바퀴살(spoke)
+const polarLayout: LayoutStrategy = (config) => {
+  const { rows, cols, rowSpacing } = config;
+  const circles: CircleData[] = [];
+
+  for (let ring = 0; ring < rows; ring++) {
+    const radius = (ring + 1) * rowSpacing;
+    for (let spoke = 0; spoke < cols; spoke++) {
+      const angle = (spoke / cols) * Math.PI * 2;
+      circles.push(createRadialCircle(radius, angle, ring, spoke));
+    }
+  }
+
+  return circles;
+};
+
+// 동심원: 고리마다 둘레에 맞춰 열 간격만큼 도형 배치
+// 열 인덱스는 고리 안에서의 위치를 cols 구간으로 나눈 값 (너비 스케일링이 둘레를 따라 적용됨)
+const concentricLayout: LayoutStrategy = (config) => {
+  const { rows, cols, rowSpacing, colSpacing } = config;
+  const circles: CircleData[] = [];
+
+  for (let ring = 0; ring < rows; ring++) {
+    const radius = (ring + 1) * rowSpacing;
+    const count = Math.max(1, Math.round((Math.PI * 2 * radius) / colSpacing));
+    for (let i = 0; i < count; i++) {
+      const angle = (i / count) * Math.PI * 2;
+      circles.push(createRadialCircle(radius, angle, ring, Math.floor((i * cols) / count)));
+    }
+  }
+
+  return circles;
+};
+
+// 페르마 나선 (해바라기 씨앗 배치, Vogel 모델)
+// 행/열 인덱스는 중심에서 바깥으로 rows/cols 구간을 나눈 값
+const spiralLayout: LayoutStrategy = (config) => {
+  const { rows, cols, colSpacing } = config;
+  const count = Math.max(1, Math.round(config.spiralCount ?? 200));
+  const divergence = ((config.spiralAngle ?? 137.508) * Math.PI) / 180;
+  // 점 하나가 차지하는 면적이 열 간격의 제곱 정도가 되도록 스케일 결정
+  const scale = colSpacing / Math.sqrt(Math.PI);
+  const circles: CircleData[] = [];
+
+  for (let n = 0; n < count; n++) {
+    const radius = scale * Math.sqrt(n);
+    const angle = n * divergence;
+    circles.push(createRadialCircle(
+      radius,
+      angle,
+      Math.floor((n * rows) / count),
+      Math.floor((n * cols) / count)
+    ));
+  }
+
+  return circles;
+};
+
+// 포아송 디스크 샘플링 (Bridson 알고리즘)으로 격자와 같은 영역에 유기적으로 흩뿌림
+// 행/열 인덱스는 가장 가까운 원래 격자 칸으로 지정하여 너비 스케일링 등이 그대로 동작함
+export const MAX_SCATTER_POINTS = 20000;
+const SCATTER_CANDIDATES = 30;
+
+const scatterLayout: LayoutStrategy = (config) => {
+  const { rows, cols, rowSpacing, colSpacing } = config;
+  const minDistance = Math.max(config.scatterMinDistance ?? 1.8, 0.05);
+  const width = Math.max(cols - 1, 1) * colSpacing;
+  const height = Math.max(rows - 1, 1) * rowSpacing;
+  const random = new SeededRandom(config.layoutSeed ?? 0, 'shape');
+
+  // 배경 격자: 칸 크기가 r/√2 이므로 칸마다 점이 최대 하나
+  const cellSize = minDistance / Math.SQRT2;
+  const gridCols = Math.ceil(width / cellSize) + 1;
+  const gridRows = Math.ceil(height / cellSize) + 1;
+  const grid: number[] = new Array(gridCols * gridRows).fill(-1);
+  const samples: { x: number; y: number }[] = [];
+  const active: number[] = [];
+
+  const addSample = (x: number, y: number) => {
+    samples.push({ x, y });
+    active.push(samples.length - 1);
+    grid[Math.floor(y / cellSize) * gridCols + Math.floor(x / cellSize)] = samples.length - 1;
+  };
+
+  const isFarEnough = (x: number, y: number) => {
+    const gx = Math.floor(x / cellSize);
+    const gy = Math.floor(y / cellSize);
+    for (let j = Math.max(gy - 2, 0); j <= Math.min(gy + 2, gridRows - 1); j++) {
+      for (let i = Math.max(gx - 2, 0); i <= Math.min(gx + 2, gridCols - 1); i++) {
+        const index = grid[j * gridCols + i];
+        if (index < 0) continue;
+        const dx = samples[index].x - x;
+        const dy = samples[index].y - y;
+        if (dx * dx + dy * dy < minDistance * minDistance) return false;
+      }
+    }
+    return true;
+  };
+
+  addSample(random.next() * width, random.next() * height);
+
+  while (active.length > 0 && samples.length < MAX_SCATTER_POINTS) {
+    const activeIndex = Math.floor(random.next() * active.length);
+    const origin = samples[active[activeIndex]];
+    let placed = false;
+
+    for (let attempt = 0; attempt < SCATTER_CANDIDATES; attempt++) {
+      const angle = random.next() * Math.PI * 2;
+      const distance = minDistance * (1 + random.next());
+      const x = origin.x + Math.cos(angle) * distance;
+      const y = origin.y + Math.sin(angle) * distance;
+
+      if (x >= 0 && x <= width && y >= 0 && y <= height && isFarEnough(x, y)) {
+        addSample(x, y);
+        placed = true;
+        break;
+      }
+    }
+
+    if (!placed) {
+      active.splice(activeIndex, 1);
+    }
+  }
+
+  return toCenteredCircles(samples.map(({ x, y }) => ({
+    x,
+    y,
+    col: Math.min(cols - 1, Math.max(0, Math.round(x / colSpacing))),
+    row: Math.min(rows - 1, Math.max(0, Math.round(y / rowSpacing)))
+  })));
+};
+
+export const gridLayoutStrategies: Record<GridLayout, LayoutStrategy> = {
+  rectangular: rectangularLayout,
+  hexagonal: hexagonalLayout,
+  brick: brickLayout,
+  diamond: diamondLayout,
+  polar: polarLayout,
+  concentric: concentricLayout,
+  spiral: spiralLayout,
+  scatter: scatterLayout,
+};
+
+// 도형을 반지름 방향으로 회전시킬 수 있는 배치
+export const RADIAL_LAYOUTS: GridLayout[] = ['polar', 'concentric', 'spiral'];
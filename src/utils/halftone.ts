@@ -0,0 +1,151 @@
+import { CircleData, HalftoneColorMode } from '../types';
+import { MAX_SCATTER_POINTS } from './gridLayouts';
+
+// 프로젝트에 저장할 이미지의 최대 크기 (긴 변 기준 픽셀)
+// 셀마다 픽셀 하나를 샘플링하므로 한 축에 놓이는 셀 수보다 해상도가 높으면 충분함.
+// 가장 촘촘한 흩뿌림 배치는 최대 MAX_SCATTER_POINTS개가 2:1 영역(열 100 × 행 50)에 퍼져 가로로 약 √(2N) = 200개이고,
+// 동심원/나선처럼 연속 좌표를 쓰는 배치는 이웃 셀이 더 가까울 수 있어 두 배 여유를 둠 (400px)
+export const HALFTONE_MAX_IMAGE_SIZE = Math.ceil(Math.sqrt(MAX_SCATTER_POINTS * 2)) * 2;
+
+interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface HalftoneOptions {
+  minScale: number;
+  invert: boolean;
+  colorMode: HalftoneColorMode;
+  // 색상 그룹별 채우기 색 (null이면 가장 가까운 그룹 선택에서 제외)
+  groupColors: (RGB | null)[];
+}
+
+const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load halftone image'));
+    image.src = src;
+  });
+
+// 이미지를 maxSize 이하로 축소해 캔버스에 그립니다
+const drawScaledImage = (image: HTMLImageElement, maxSize: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * 이미지 파일을 축소된 PNG data URL로 읽습니다 (프로젝트/URL 저장 용량을 줄이기 위함).
+ */
+export const readHalftoneImageFile = async (file: File): Promise<string> => {
+  const originalUrl = URL.createObjectURL(file);
+  try {
+    const image = await loadImageElement(originalUrl);
+    return drawScaledImage(image, HALFTONE_MAX_IMAGE_SIZE).toDataURL('image/png');
+  } finally {
+    URL.revokeObjectURL(originalUrl);
+  }
+};
+
+/**
+ * data URL 이미지를 픽셀 데이터로 디코딩합니다.
+ */
+export const loadHalftoneImageData = async (dataUrl: string): Promise<ImageData> => {
+  const image = await loadImageElement(dataUrl);
+  const canvas = drawScaledImage(image, HALFTONE_MAX_IMAGE_SIZE);
+  return canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// u, v (0~1, v=0이 이미지 위쪽)에 해당하는 픽셀 색 (투명 픽셀은 흰 배경 위에 합성)
+const samplePixel = (imageData: ImageData, u: number, v: number): RGB => {
+  const x = Math.min(imageData.width - 1, Math.max(0, Math.floor(u * imageData.width)));
+  const y = Math.min(imageData.height - 1, Math.max(0, Math.floor(v * imageData.height)));
+  const index = (y * imageData.width + x) * 4;
+  const alpha = imageData.data[index + 3] / 255;
+
+  return {
+    r: imageData.data[index] * alpha + 255 * (1 - alpha),
+    g: imageData.data[index + 1] * alpha + 255 * (1 - alpha),
+    b: imageData.data[index + 2] * alpha + 255 * (1 - alpha),
+  };
+};
+
+// 상대 휘도 (0~1)
+const getLuminance = ({ r, g, b }: RGB): number => (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+
+const findNearestGroup = (color: RGB, groupColors: (RGB | null)[]): number | null => {
+  let nearest: number | null = null;
+  let nearestDistance = Infinity;
+
+  groupColors.forEach((groupColor, index) => {
+    if (!groupColor) return;
+    const distance =
+      (color.r - groupColor.r) ** 2 +
+      (color.g - groupColor.g) ** 2 +
+      (color.b - groupColor.b) ** 2;
+    if (distance < nearestDistance) {
+      nearestDistance = distance;
+      nearest = index;
+    }
+  });
+
+  return nearest;
+};
+
+/**
+ * 각 셀의 격자 위치에 해당하는 이미지 픽셀을 샘플링합니다.
+ * 어두울수록 크기가 커지고 (invert면 반대), 색상 모드에 따라
+ * 가장 가까운 색상 그룹을 고르거나 샘플링한 색을 그대로 사용합니다.
+ */
+export const applyHalftoneSampling = (
+  circles: CircleData[],
+  imageData: ImageData,
+  options: HalftoneOptions
+): void => {
+  if (circles.length === 0) return;
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  circles.forEach(({ position }) => {
+    minX = Math.min(minX, position.x);
+    maxX = Math.max(maxX, position.x);
+    minY = Math.min(minY, position.y);
+    maxY = Math.max(maxY, position.y);
+  });
+
+  const width = Math.max(maxX - minX, 1e-6);
+  const height = Math.max(maxY - minY, 1e-6);
+
+  circles.forEach(circle => {
+    const u = (circle.position.x - minX) / width;
+    const v = 1 - (circle.position.y - minY) / height;
+    const color = samplePixel(imageData, u, v);
+
+    const luminance = getLuminance(color);
+    const coverage = options.invert ? luminance : 1 - luminance;
+    circle.sizeScale = options.minScale + (1 - options.minScale) * coverage;
+
+    if (options.colorMode === 'nearestGroup') {
+      const group = findNearestGroup(color, options.groupColors);
+      if (group !== null) {
+        circle.colorGroup = group;
+      }
+    } else if (options.colorMode === 'direct') {
+      circle.sampledColor = {
+        r: Math.round(color.r),
+        g: Math.round(color.g),
+        b: Math.round(color.b),
+      };
+    }
+  });
+};
@@ -0,0 +1,406 @@
+import * as THREE from 'three';
+import { CircleData, CircleGridConfig, GradientFill } from '../types';
+import {
+  createCellFillGeometry,
+  createCellStrokeGeometry,
+  getCellShapeScale,
+  resolveCellConfig,
+} from './circleGeometry';
+import { geometryCache, materialCache, createCacheKey } from './resourceCache';
+import { getCellKeys } from './cellDiff';
+import {
+  addGradientCoordinates,
+  createGradientInstanceGeometry,
+  disposeGradientInstanceGeometry,
+  enableGradientShader,
+  getSourceGeometry,
+  GridBounds,
+  isGradientActive,
+  markGradientCellsUpdated,
+  setGradientCell,
+  setGradientUniforms
+} from './gradientFill';
+import { RENDER_CONSTANTS } from '../constants';
+
+// 색상 그룹의 채우기/테두리 색상 (CSS 색상 문자열)과 불투명도
+export interface GroupAppearance {
+  fillColor: string;
+  strokeColor: string;
+  fillOpacity: number;
+  strokeOpacity: number;
+  syncColors: boolean; // 테두리를 채우기 색상과 맞춤 (샘플링 색상에도 적용)
+  gradient?: GradientFill; // 켜져 있으면 채우기 색상 대신 사용
+}
+
+export interface InstancedGridOptions {
+  config: CircleGridConfig;
+  borderThickness: number;
+  enableWidthScaling?: boolean;
+  widthScaleFactor?: number;
+  lit: boolean; // 조명을 받는 재질 사용 (돌출된 도형)
+  getAppearance: (colorGroup: number) => GroupAppearance;
+}
+
+// 같은 색상 그룹 + 같은 지오메트리(가로/세로 비율)를 공유하는 셀 묶음
+interface InstancedBatch {
+  key: string;
+  colorGroup: number;
+  fill: THREE.InstancedMesh;
+  stroke: THREE.InstancedMesh;
+  capacity: number; // 다시 만들지 않고 담을 수 있는 최대 인스턴스 수
+  circles: CircleData[];
+}
+
+export interface InstancedGrid {
+  root: THREE.Group;
+  batches: InstancedBatch[];
+  bounds: GridBounds; // 셀 크기를 포함한 평면 격자 범위 (격자 기준 그라디언트)
+}
+
+// 비율이 거의 같은 셀이 같은 지오메트리를 쓰도록 키를 반올림
+const ASPECT_KEY_PRECISION = 5;
+
+// 셀 수가 늘어날 때 인스턴스 버퍼를 여유 있게 잡아 슬라이더 드래그 중 재할당을 줄임
+const CAPACITY_GROWTH = 1.25;
+
+// 색상 그룹의 채우기/테두리 재질 (불투명도와 그라디언트는 updateInstanceColors에서 지정)
+const acquireGroupMaterial = (kind: 'fill' | 'stroke', lit: boolean, colorGroup: number): THREE.Material =>
+  materialCache.acquire(createCacheKey(kind, lit, colorGroup), () => {
+    // 실제 색상은 인스턴스 색상으로 지정하므로 재질 색상은 흰색 (곱해짐)
+    const MaterialType = lit ? THREE.MeshStandardMaterial : THREE.MeshBasicMaterial;
+    const material = new MaterialType({
+      color: 0xffffff,
+      side: THREE.DoubleSide
+    });
+    if (kind === 'fill') {
+      enableGradientShader(material);
+    }
+    return material;
+  });
+
+// 지오메트리 모양을 결정하는 설정만으로 만든 캐시 키
+const getShapeKey = (config: CircleGridConfig) => [
+  config.shapeType,
+  config.circleRadius,
+  config.rectangleWidth,
+  config.rectangleHeight,
+  config.polygonSides,
+  config.polygonRotation,
+  config.cornerRadius,
+  config.customSvg,
+  config.extrusion,
+  config.circleSegments
+];
+
+const createInstancedMesh = (
+  geometry: THREE.BufferGeometry,
+  material: THREE.Material,
+  capacity: number
+): THREE.InstancedMesh => {
+  const mesh = new THREE.InstancedMesh(geometry, material, capacity);
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+  // 인스턴스가 곡면/변형기로 흩어지므로 묶음 단위 절두체 컬링은 하지 않음
+  mesh.frustumCulled = false;
+  return mesh;
+};
+
+// 용량이 부족한 묶음의 인스턴스 메시를 같은 지오메트리/재질로 다시 할당
+const resizeBatch = (batch: InstancedBatch, count: number): void => {
+  const capacity = Math.ceil(count * CAPACITY_GROWTH);
+  const fill = createInstancedMesh(
+    createGradientInstanceGeometry(getSourceGeometry(batch.fill.geometry), capacity),
+    batch.fill.material as THREE.Material,
+    capacity
+  );
+  const stroke = createInstancedMesh(batch.stroke.geometry, batch.stroke.material as THREE.Material, capacity);
+
+  batch.fill.parent?.add(fill, stroke);
+  batch.fill.removeFromParent();
+  batch.stroke.removeFromParent();
+  disposeGradientInstanceGeometry(batch.fill.geometry);
+  batch.fill.dispose();
+  batch.stroke.dispose();
+
+  batch.fill = fill;
+  batch.stroke = stroke;
+  batch.capacity = capacity;
+};
+
+// 묶음의 인스턴스 버퍼를 해제하고 공유 지오메트리/재질의 캐시 참조를 줄임
+const releaseBatch = (batch: InstancedBatch): void => {
+  batch.fill.removeFromParent();
+  batch.stroke.removeFromParent();
+  geometryCache.release(getSourceGeometry(batch.fill.geometry));
+  disposeGradientInstanceGeometry(batch.fill.geometry);
+  geometryCache.release(batch.stroke.geometry);
+  materialCache.release(batch.fill.material as THREE.Material);
+  materialCache.release(batch.stroke.material as THREE.Material);
+  batch.fill.dispose();
+  batch.stroke.dispose();
+};
+
+/**
+ * 셀마다 씬에 추가되지 않는 프록시 Object3D를 준비합니다. 기존 격자에서 (행, 열)이 같은 셀의 프록시를
+ * 재사용하며, 원래 위치와 도형 배율을 userData에 기록하고 변환을 평면 격자 기준으로 초기화합니다.
+ * 곡면/오브젝트 변환과 변형기는 이 프록시에 적용한 뒤 updateInstancedGrid 또는 syncInstanceMatrices로 반영합니다.
+ */
+export const prepareCellProxies = (
+  grid: InstancedGrid | null,
+  circles: CircleData[],
+  options: Pick<InstancedGridOptions, 'config' | 'enableWidthScaling' | 'widthScaleFactor'>
+): void => {
+  const { config, enableWidthScaling, widthScaleFactor } = options;
+
+  // 이전 셀의 프록시를 (행, 열) 키로 모아 재사용
+  const previousProxies = new Map<string, THREE.Object3D>();
+  grid?.batches.forEach(batch => {
+    const keys = getCellKeys(batch.circles);
+    batch.circles.forEach((circle, index) => {
+      if (circle.mesh) previousProxies.set(keys[index], circle.mesh);
+    });
+  });
+
+  const cellKeys = getCellKeys(circles);
+  circles.forEach((circle, index) => {
+    const proxy = previousProxies.get(cellKeys[index]) ?? new THREE.Object3D();
+    proxy.userData.originalPosition = { x: circle.position.x, y: circle.position.y, z: circle.position.z };
+    proxy.userData.shapeScale = getCellShapeScale(config, circle, enableWidthScaling, widthScaleFactor).uniform;
+    proxy.position.set(circle.position.x, circle.position.y, circle.position.z);
+    proxy.rotation.set(0, 0, 0);
+    proxy.scale.setScalar(circle.jitter?.scale ?? 1);
+    circle.mesh = proxy;
+  });
+};
+
+/**
+ * 셀들을 색상 그룹 × 채우기/테두리별 InstancedMesh로 묶어 생성하거나, 기존 격자를 새 셀 집합에 맞게 갱신합니다.
+ * 셀의 프록시는 prepareCellProxies로 미리 준비되어 있어야 하며, 프록시의 현재 변환이 그대로 인스턴스 행렬이 됩니다.
+ * 가로/세로 비율이 다른 셀은 지오메트리가 달라 별도 묶음이 되고,
+ * 하프톤/반지름/초점 스케일링 같은 균일한 크기 배율은 인스턴스 행렬에 들어갑니다.
+ *
+ * 기존 격자가 있으면 모양이 같은 묶음의 인스턴스 메시를 재사용하고,
+ * 새로 필요한 묶음만 만들고 더 이상 쓰지 않는 묶음만 해제합니다.
+ */
+export const updateInstancedGrid = (
+  grid: InstancedGrid | null,
+  circles: CircleData[],
+  options: InstancedGridOptions
+): InstancedGrid => {
+  const { config, borderThickness, enableWidthScaling, widthScaleFactor, lit, getAppearance } = options;
+  const root = grid?.root ?? new THREE.Group();
+
+  const buckets = new Map<string, { circles: CircleData[]; width: number; height: number }>();
+
+  circles.forEach(circle => {
+    const scale = getCellShapeScale(config, circle, enableWidthScaling, widthScaleFactor);
+
+    // 그룹별 돌출 깊이가 다르므로 색상 그룹도 지오메트리 키에 포함 (원 분할 수가 다른 셀도 별도 묶음)
+    const key = createCacheKey(
+      circle.colorGroup,
+      lit,
+      borderThickness,
+      circle.circleSegments,
+      scale.width.toFixed(ASPECT_KEY_PRECISION),
+      scale.height.toFixed(ASPECT_KEY_PRECISION)
+    );
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.circles.push(circle);
+    } else {
+      buckets.set(key, { circles: [circle], width: scale.width, height: scale.height });
+    }
+  });
+
+  // 모양 관련 설정이 바뀌면 모든 묶음의 지오메트리를 새로 가져와야 하므로 묶음 키에 포함
+  const shapeSignature = createCacheKey(getShapeKey(config), config.groupExtrusionDepths);
+  const reusable = new Map(
+    (grid?.batches ?? []).map(batch => [batch.key, batch] as const)
+  );
+
+  const batches: InstancedBatch[] = [];
+  buckets.forEach(({ circles: bucketCircles, width, height }, bucketKey) => {
+    const key = `${shapeSignature}|${bucketKey}`;
+    const colorGroup = bucketCircles[0].colorGroup;
+    const previous = reusable.get(key);
+
+    if (previous) {
+      reusable.delete(key);
+      if (bucketCircles.length > previous.capacity) {
+        resizeBatch(previous, bucketCircles.length);
+      }
+      previous.circles = bucketCircles;
+      previous.fill.count = bucketCircles.length;
+      previous.stroke.count = bucketCircles.length;
+      batches.push(previous);
+      return;
+    }
+
+    // 균일 배율은 인스턴스 행렬에서 적용하므로 기준 크기의 지오메트리 생성 (그룹별 돌출 깊이는 유지)
+    const baseConfig: CircleGridConfig = {
+      ...resolveCellConfig(config, { ...bucketCircles[0], sizeScale: 1 }),
+      radiusScaling: undefined,
+      focalScaling: undefined,
+      circleSegments: bucketCircles[0].circleSegments
+    };
+    const aspect = { width, height };
+    const geometryKey = getShapeKey(baseConfig);
+    // 채우기는 묶음별 격자 그라디언트 인스턴스 속성을 붙인 지오메트리 (공유 속성은 캐시된 지오메트리 것을 사용)
+    const fill = createInstancedMesh(
+      createGradientInstanceGeometry(
+        geometryCache.acquire(
+          createCacheKey('fill', geometryKey, aspect),
+          () => addGradientCoordinates(createCellFillGeometry(baseConfig, aspect))
+        ),
+        bucketCircles.length
+      ),
+      acquireGroupMaterial('fill', lit, colorGroup),
+      bucketCircles.length
+    );
+    const stroke = createInstancedMesh(
+      geometryCache.acquire(
+        createCacheKey('stroke', geometryKey, aspect, borderThickness),
+        () => createCellStrokeGeometry(baseConfig, borderThickness, aspect)
+      ),
+      acquireGroupMaterial('stroke', lit, colorGroup),
+      bucketCircles.length
+    );
+
+    root.add(fill, stroke);
+    batches.push({ key, colorGroup, fill, stroke, capacity: bucketCircles.length, circles: bucketCircles });
+  });
+
+  // 새 셀 집합에서 쓰이지 않는 묶음만 해제 (새 묶음이 먼저 가져간 지오메트리/재질은 유지됨)
+  reusable.forEach(releaseBatch);
+
+  const nextGrid = { root, batches, bounds: getGridBounds(batches) };
+  updateGradientCells(batches);
+  updateInstanceColors(nextGrid, getAppearance);
+  syncInstanceMatrices(nextGrid);
+  return nextGrid;
+};
+
+// 셀의 평면 배율 (도형 배율 × 지터 크기, 곡면/변형기 적용 전)
+const getPlanarCellScale = (circle: CircleData): number =>
+  (circle.mesh?.userData.shapeScale ?? 1) * (circle.jitter?.scale ?? 1);
+
+// 격자 기준 그라디언트가 범위와 같은 기준으로 샘플링하도록 셀별 평면 위치/배율 기록
+const updateGradientCells = (batches: InstancedBatch[]): void => {
+  batches.forEach(({ fill, circles }) => {
+    circles.forEach((circle, index) => {
+      setGradientCell(fill.geometry, index, circle.position.x, circle.position.y, getPlanarCellScale(circle));
+    });
+    markGradientCellsUpdated(fill.geometry);
+  });
+};
+
+// 셀 평면 위치에 셀 크기(지오메트리 경계 × 배율)를 더한 격자 범위
+const getGridBounds = (batches: InstancedBatch[]): GridBounds => {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+
+  batches.forEach(({ fill, circles }) => {
+    const box = fill.geometry.boundingBox;
+    circles.forEach(circle => {
+      const scale = getPlanarCellScale(circle);
+      bounds.minX = Math.min(bounds.minX, circle.position.x + (box ? box.min.x * scale : 0));
+      bounds.minY = Math.min(bounds.minY, circle.position.y + (box ? box.min.y * scale : 0));
+      bounds.maxX = Math.max(bounds.maxX, circle.position.x + (box ? box.max.x * scale : 0));
+      bounds.maxY = Math.max(bounds.maxY, circle.position.y + (box ? box.max.y * scale : 0));
+    });
+  });
+
+  return Number.isFinite(bounds.minX) ? bounds : { minX: -1, minY: -1, maxX: 1, maxY: 1 };
+};
+
+/**
+ * 프록시의 현재 변환을 인스턴스 행렬로 복사합니다.
+ * 테두리는 Z-fighting 방지를 위해 셀 기준으로 살짝 앞으로 띄웁니다.
+ */
+export const syncInstanceMatrices = (grid: InstancedGrid): void => {
+  const shapeScale = new THREE.Matrix4();
+  const strokeOffset = new THREE.Matrix4().makeTranslation(0, 0, RENDER_CONSTANTS.Z_FIGHTING_OFFSET);
+  const matrix = new THREE.Matrix4();
+
+  grid.batches.forEach(({ fill, stroke, circles }) => {
+    circles.forEach((circle, index) => {
+      const proxy = circle.mesh;
+      if (!proxy) return;
+
+      proxy.updateMatrix();
+      // 균일 배율은 도형 평면(XY)에만 적용해 돌출 깊이는 유지
+      const scale = proxy.userData.shapeScale ?? 1;
+      shapeScale.makeScale(scale, scale, 1);
+
+      matrix.multiplyMatrices(proxy.matrix, shapeScale);
+      fill.setMatrixAt(index, matrix);
+
+      matrix.multiplyMatrices(proxy.matrix, strokeOffset).multiply(shapeScale);
+      stroke.setMatrixAt(index, matrix);
+    });
+
+    fill.instanceMatrix.needsUpdate = true;
+    stroke.instanceMatrix.needsUpdate = true;
+  });
+};
+
+const setMaterialOpacity = (material: THREE.Material, opacity: number, transparent = opacity < 1.0) => {
+  if (material.transparent !== transparent) {
+    material.transparent = transparent;
+    material.needsUpdate = true;
+  }
+  material.opacity = opacity;
+};
+
+/**
+ * 그룹별 불투명도/그라디언트와 셀별 인스턴스 색상을 갱신합니다.
+ * 하프톤에서 직접 샘플링한 색상이 있으면 채우기 (동기화된 경우 테두리도) 색상을 대체합니다.
+ * 그라디언트가 켜진 그룹은 채우기 재질의 셰이더가 인스턴스 색상 대신 그라디언트 색상을 사용합니다.
+ */
+export const updateInstanceColors = (
+  grid: InstancedGrid,
+  getAppearance: (colorGroup: number) => GroupAppearance
+): void => {
+  const fillColor = new THREE.Color();
+  const strokeColor = new THREE.Color();
+  const sampledColor = new THREE.Color();
+
+  grid.batches.forEach(({ colorGroup, fill, stroke, circles }) => {
+    const appearance = getAppearance(colorGroup);
+    const gradient = isGradientActive(appearance.gradient) ? appearance.gradient : undefined;
+    // 그라디언트의 불투명도는 정지점 색상의 알파로 적용
+    setMaterialOpacity(
+      fill.material as THREE.Material,
+      gradient ? 1 : appearance.fillOpacity,
+      gradient ? gradient.stops.some(stop => stop.color.a < 1) : undefined
+    );
+    setGradientUniforms(fill.material as THREE.Material, gradient, grid.bounds);
+    setMaterialOpacity(stroke.material as THREE.Material, appearance.strokeOpacity);
+    fillColor.set(appearance.fillColor);
+    strokeColor.set(appearance.strokeColor);
+
+    circles.forEach((circle, index) => {
+      if (circle.sampledColor) {
+        const { r, g, b } = circle.sampledColor;
+        sampledColor.set(`rgb(${r}, ${g}, ${b})`);
+        fill.setColorAt(index, sampledColor);
+        stroke.setColorAt(index, appearance.syncColors ? sampledColor : strokeColor);
+      } else {
+        fill.setColorAt(index, fillColor);
+        stroke.setColorAt(index, strokeColor);
+      }
+    });
+
+    if (fill.instanceColor) fill.instanceColor.needsUpdate = true;
+    if (stroke.instanceColor) stroke.instanceColor.needsUpdate = true;
+  });
+};
+
+/**
+ * 씬에서 제거하고 GPU 자원을 해제합니다.
+ * 인스턴스 버퍼는 바로 해제하고, 공유 지오메트리/재질은 캐시 참조만 줄여
+ * 다른 격자가 쓰지 않을 때만 해제되게 합니다.
+ */
+export const disposeInstancedGrid = (grid: InstancedGrid): void => {
+  grid.root.removeFromParent();
+  grid.batches.forEach(releaseBatch);
+  grid.batches = [];
+};
@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import { CircleData, CircleGridConfig, ShapeType } from '../types';
+import { MAX_CIRCLE_SEGMENTS } from './circleGeometry';
+
+// 선택 가능한 원 분할 수 (단계를 나눠 같은 단계의 셀끼리 지오메트리를 공유)
+export const CIRCLE_SEGMENT_LEVELS = [16, 32, 64, 128, 256, MAX_CIRCLE_SEGMENTS];
+
+// 원 둘레의 한 변이 화면에서 이 길이(px) 이하가 되도록 분할
+const TARGET_EDGE_PIXELS = 3;
+
+// 화면상 반지름(px)에 맞는 원 분할 수
+export const getCircleSegmentsForPixels = (radiusPixels: number): number => {
+  const needed = (Math.PI * 2 * radiusPixels) / TARGET_EDGE_PIXELS;
+  return CIRCLE_SEGMENT_LEVELS.find(level => level >= needed) ?? MAX_CIRCLE_SEGMENTS;
+};
+
+// 원근 카메라에서 position에 있는 반지름 radius 도형의 화면상 반지름(px)
+export const getProjectedRadiusPixels = (
+  radius: number,
+  position: THREE.Vector3,
+  camera: THREE.PerspectiveCamera,
+  viewportHeight: number
+): number => {
+  const distance = camera.position.distanceTo(position);
+  if (distance <= camera.near) return Infinity;
+
+  const visibleHeight = 2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2) * distance;
+  return (radius * viewportHeight) / visibleHeight;
+};
+
+/**
+ * 셀마다 화면상 크기에 맞는 원 분할 수를 정해 circle.circleSegments에 저장합니다.
+ * camera가 없으면 (적응형 비활성화, 내보내기) 모든 셀에 최대 분할 수를 사용합니다.
+ * 원 도형이 아니면 분할 수를 지웁니다. 하나라도 바뀌었으면 true를 반환합니다.
+ */
+export const assignCircleSegments = (
+  circles: CircleData[],
+  config: CircleGridConfig,
+  camera: THREE.PerspectiveCamera | null,
+  viewportHeight: number
+): boolean => {
+  const isCircle = config.shapeType === ShapeType.Circle;
+  const position = new THREE.Vector3();
+  let changed = false;
+
+  circles.forEach(circle => {
+    let segments: number | undefined;
+
+    if (isCircle && camera) {
+      // 변환이 적용된 셀이면 실제 위치/크기, 아니면 평면 격자 위치로 추정
+      const proxy = circle.mesh;
+      const scale = proxy
+        ? (proxy.userData.shapeScale ?? 1) * Math.max(proxy.scale.x, proxy.scale.y)
+        : (circle.sizeScale ?? 1) * (circle.jitter?.scale ?? 1);
+      if (proxy) {
+        position.copy(proxy.position);
+      } else {
+        position.set(circle.position.x, circle.position.y, circle.position.z);
+      }
+
+      const radiusPixels = getProjectedRadiusPixels(config.circleRadius * scale, position, camera, viewportHeight);
+      segments = getCircleSegmentsForPixels(radiusPixels);
+    } else if (isCircle) {
+      segments = MAX_CIRCLE_SEGMENTS;
+    }
+
+    if (circle.circleSegments !== segments) {
+      circle.circleSegments = segments;
+      changed = true;
+    }
+  });
+
+  return changed;
+};
@@ -0,0 +1,60 @@
+import { SeededRandom } from './random';
+
+export type NoiseFunction3D = (x: number, y: number, z: number) => number;
+
+const fade = (t: number): number => t * t * t * (t * (t * 6 - 15) + 10);
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+// 해시 값의 하위 4비트로 12개 기울기 방향 중 하나를 골라 내적
+const gradient = (hash: number, x: number, y: number, z: number): number => {
+  const h = hash & 15;
+  const u = h < 8 ? x : y;
+  const v = h < 4 ? y : h === 12 || h === 14 ? x : z;
+  return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+};
+
+/**
+ * 시드 기반 3D 펄린 노이즈 함수를 생성합니다. 결과는 대략 [-1, 1] 범위입니다.
+ */
+export const createNoise3D = (seed: number): NoiseFunction3D => {
+  const random = new SeededRandom(seed);
+
+  // 0~255 순열을 시드로 섞은 뒤 두 번 이어 붙임 (인덱스 오버플로 방지)
+  const permutation = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = permutation.length - 1; i > 0; i--) {
+    const j = Math.floor(random.next() * (i + 1));
+    [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+  }
+  const p = [...permutation, ...permutation];
+
+  return (x, y, z) => {
+    const X = Math.floor(x) & 255;
+    const Y = Math.floor(y) & 255;
+    const Z = Math.floor(z) & 255;
+    x -= Math.floor(x);
+    y -= Math.floor(y);
+    z -= Math.floor(z);
+
+    const u = fade(x);
+    const v = fade(y);
+    const w = fade(z);
+
+    const A = p[X] + Y, AA = p[A] + Z, AB = p[A + 1] + Z;
+    const B = p[X + 1] + Y, BA = p[B] + Z, BB = p[B + 1] + Z;
+
+    return lerp(
+      lerp(
+        lerp(gradient(p[AA], x, y, z), gradient(p[BA], x - 1, y, z), u),
+        lerp(gradient(p[AB], x, y - 1, z), gradient(p[BB], x - 1, y - 1, z), u),
+        v
+      ),
+      lerp(
+        lerp(gradient(p[AA + 1], x, y, z - 1), gradient(p[BA + 1], x - 1, y, z - 1), u),
+        lerp(gradient(p[AB + 1], x, y - 1, z - 1), gradient(p[BB + 1], x - 1, y - 1, z - 1), u),
+        v
+      ),
+      w
+    );
+  };
+};
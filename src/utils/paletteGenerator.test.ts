@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createColorGroup, createDefaultColorGroups } from './colorGroups';
+import { generateHarmonyPalette, oklchToRgb } from './paletteGenerator';
+
+// 검증용 역변환: sRGB(0~255) → OKLCH (Björn Ottosson의 OKLab 행렬)
+const rgbToOklch = ({ r, g, b }: { r: number; g: number; b: number }) => {
+  const [lr, lg, lb] = [r, g, b].map(channel => {
+    const value = channel / 255;
+    return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const bAxis = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    c: Math.hypot(a, bAxis),
+    h: ((Math.atan2(bAxis, a) * 180) / Math.PI + 360) % 360,
+  };
+};
+
+describe('oklchToRgb', () => {
+  it('converts reference colors', () => {
+    expect(oklchToRgb(1, 0, 0)).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+    expect(oklchToRgb(0, 0, 0)).toEqual({ r: 0, g: 0, b: 0, a: 1 });
+    // sRGB 빨강의 OKLCH 좌표
+    expect(oklchToRgb(0.628, 0.2577, 29.23, 0.5)).toEqual({ r: 255, g: 0, b: 0, a: 0.5 });
+  });
+
+  it('maps out-of-gamut colors into sRGB by lowering chroma only', () => {
+    const clamped = oklchToRgb(0.9, 0.37, 264);
+    const { l, c, h } = rgbToOklch(clamped);
+
+    // 8비트 반올림 오차 안에서 명도와 색상각은 그대로, 채도만 줄어듦
+    expect(l).toBeCloseTo(0.9, 2);
+    expect(Math.abs(h - 264)).toBeLessThan(3);
+    expect(c).toBeLessThan(0.37);
+    expect(c).toBeGreaterThan(0.01);
+  });
+});
+
+describe('generateHarmonyPalette', () => {
+  const options = { rule: 'complementary' as const, baseHue: 220, lightness: 0.7, chroma: 0.12 };
+
+  it('leaves locked groups untouched', () => {
+    const groups = createDefaultColorGroups();
+    groups[1] = { ...groups[1], locked: true };
+
+    const generated = generateHarmonyPalette(groups, options);
+    expect(generated[1]).toBe(groups[1]);
+    expect(generated[0].fill).not.toEqual(groups[0].fill);
+  });
+
+  it('keeps the existing fill and stroke opacity', () => {
+    const groups = [createColorGroup(0, { fill: { r: 0, g: 0, b: 0, a: 0.4 }, stroke: { r: 0, g: 0, b: 0, a: 0.7 } })];
+    const [generated] = generateHarmonyPalette(groups, options);
+
+    expect(generated.fill.a).toBe(0.4);
+    expect(generated.stroke.a).toBe(0.7);
+  });
+
+  it('repeats rule hues with a different lightness once the rule runs out', () => {
+    const groups = [0, 1, 2].map(index => createColorGroup(index));
+    const [first, , third] = generateHarmonyPalette(groups, options);
+
+    // 두 번째 바퀴는 더 어둡게
+    expect(third.fill).not.toEqual(first.fill);
+    expect(third.fill.r + third.fill.g + third.fill.b).toBeLessThan(first.fill.r + first.fill.g + first.fill.b);
+  });
+});
@@ -0,0 +1,102 @@
+import { ColorGroup, ColorRGBA, HarmonyRule } from '../types';
+
+// 규칙별 기준 색상에서의 색상각 차이 (도)
+const HARMONY_OFFSETS: Record<HarmonyRule, number[]> = {
+  complementary: [0, 180],
+  triadic: [0, 120, 240],
+  analogous: [0, 30, -30, 60],
+  splitComplementary: [0, 150, 210],
+  tetradic: [0, 90, 180, 270]
+};
+
+// 규칙의 색상 수보다 그룹이 많을 때 한 바퀴마다 바꾸는 밝기
+const LIGHTNESS_STEP = 0.12;
+
+// 테두리는 같은 색상각의 어둡고 채도 낮은 톤
+const STROKE_LIGHTNESS_DROP = 0.35;
+const STROKE_CHROMA_RATIO = 0.5;
+
+export interface HarmonyOptions {
+  rule: HarmonyRule;
+  baseHue: number; // 도
+  lightness: number; // OKLCH L (0~1)
+  chroma: number; // OKLCH C (0~0.37)
+}
+
+// OKLCH → 선형 sRGB (범위 밖 값도 그대로 반환)
+const oklchToLinearRgb = (l: number, c: number, h: number): [number, number, number] => {
+  const hue = (h * Math.PI) / 180;
+  const a = c * Math.cos(hue);
+  const b = c * Math.sin(hue);
+
+  const l_ = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m_ = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s_ = (l - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+
+  return [
+    4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_,
+    -1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_,
+    -0.0041960863 * l_ - 0.7034186147 * m_ + 1.7076147010 * s_
+  ];
+};
+
+const isInGamut = (channels: number[]) => channels.every(channel => channel >= -1e-4 && channel <= 1 + 1e-4);
+
+const toSrgbChannel = (linear: number): number => {
+  const clamped = Math.min(1, Math.max(0, linear));
+  const encoded = clamped <= 0.0031308 ? 12.92 * clamped : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055;
+  return Math.round(encoded * 255);
+};
+
+/**
+ * OKLCH 색상을 sRGB로 변환합니다.
+ * sRGB 범위를 벗어나면 밝기와 색상각은 유지한 채 채도만 낮춰 범위 안으로 맞춥니다.
+ */
+export const oklchToRgb = (l: number, c: number, h: number, alpha: number = 1): ColorRGBA => {
+  let channels = oklchToLinearRgb(l, c, h);
+  if (!isInGamut(channels)) {
+    let low = 0;
+    let high = c;
+    for (let i = 0; i < 20; i++) {
+      const mid = (low + high) / 2;
+      if (isInGamut(oklchToLinearRgb(l, mid, h))) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    channels = oklchToLinearRgb(l, low, h);
+  }
+
+  const [r, g, b] = channels.map(toSrgbChannel);
+  return { r, g, b, a: alpha };
+};
+
+/**
+ * 조화 규칙으로 색상 그룹의 채우기/테두리 색상을 만듭니다.
+ * 그룹 순서대로 규칙의 색상각을 돌려 쓰고, 한 바퀴를 넘으면 밝기를 번갈아 올리고 내립니다.
+ * 잠긴 그룹은 그대로 두며 (위치별 색상각은 유지), 기존 불투명도는 유지합니다.
+ */
+export const generateHarmonyPalette = (groups: ColorGroup[], options: HarmonyOptions): ColorGroup[] => {
+  const offsets = HARMONY_OFFSETS[options.rule];
+
+  return groups.map((group, index) => {
+    if (group.locked) return group;
+
+    const hue = (((options.baseHue + offsets[index % offsets.length]) % 360) + 360) % 360;
+    const round = Math.floor(index / offsets.length);
+    const direction = round % 2 === 1 ? -1 : 1;
+    const lightness = Math.min(0.95, Math.max(0.2, options.lightness + direction * Math.ceil(round / 2) * LIGHTNESS_STEP));
+
+    return {
+      ...group,
+      fill: oklchToRgb(lightness, options.chroma, hue, group.fill.a),
+      stroke: oklchToRgb(
+        Math.max(0.15, lightness - STROKE_LIGHTNESS_DROP),
+        options.chroma * STROKE_CHROMA_RATIO,
+        hue,
+        group.stroke.a
+      )
+    };
+  });
+};
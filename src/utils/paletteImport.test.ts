@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultColorGroups } from './colorGroups';
+import { mapPaletteToGroups, parseAsePalette, parseCssColor, parsePaletteText } from './paletteImport';
+
+const rgb = (r: number, g: number, b: number, a = 1) => ({ r, g, b, a });
+
+// 색상 블록만 담은 ASE 파일 (이름 "c", float32 값)
+const createAse = (entries: { model: string; values: number[] }[], groupBlock = false): ArrayBuffer => {
+  const blocks = entries.map(({ model, values }) => {
+    const body = new DataView(new ArrayBuffer(2 + 4 + 4 + values.length * 4 + 2));
+    body.setUint16(0, 2); // 이름 길이 (null 포함)
+    body.setUint16(2, 'c'.charCodeAt(0));
+    body.setUint16(4, 0);
+    model.padEnd(4).split('').forEach((char, index) => body.setUint8(6 + index, char.charCodeAt(0)));
+    values.forEach((value, index) => body.setFloat32(10 + index * 4, value));
+    return { type: 0x0001, body: new Uint8Array(body.buffer) };
+  });
+  if (groupBlock) {
+    blocks.unshift({ type: 0xc001, body: new Uint8Array([0, 1, 0, 0]) });
+  }
+
+  const size = 12 + blocks.reduce((sum, block) => sum + 6 + block.body.length, 0);
+  const view = new DataView(new ArrayBuffer(size));
+  'ASEF'.split('').forEach((char, index) => view.setUint8(index, char.charCodeAt(0)));
+  view.setUint16(4, 1);
+  view.setUint32(8, blocks.length);
+
+  let offset = 12;
+  blocks.forEach(({ type, body }) => {
+    view.setUint16(offset, type);
+    view.setUint32(offset + 2, body.length);
+    new Uint8Array(view.buffer).set(body, offset + 6);
+    offset += 6 + body.length;
+  });
+  return view.buffer;
+};
+
+describe('parseCssColor', () => {
+  it('parses hex, rgb() and hsl() values', () => {
+    expect(parseCssColor('#f00')).toEqual(rgb(255, 0, 0));
+    expect(parseCssColor('#00ff0080')).toEqual(rgb(0, 255, 0, 128 / 255));
+    expect(parseCssColor('rgba(10, 20, 30, 0.5)')).toEqual(rgb(10, 20, 30, 0.5));
+    expect(parseCssColor('rgb(100% 0% 50% / 25%)')).toEqual(rgb(255, 0, 128, 0.25));
+    expect(parseCssColor('hsl(120, 100%, 50%)')).toEqual(rgb(0, 255, 0));
+  });
+
+  it('returns null for values it cannot resolve', () => {
+    expect(parseCssColor('tomato')).toBeNull();
+    expect(parseCssColor('var(--accent)')).toBeNull();
+    expect(parseCssColor('rgb(1, 2)')).toBeNull();
+  });
+});
+
+describe('parsePaletteText', () => {
+  it('reads GIMP palettes', () => {
+    const gpl = 'GIMP Palette\nName: Test\nColumns: 2\n#\n255   0   0\tRed\n  0 128 255 Blue\n';
+    expect(parsePaletteText(gpl)).toEqual([rgb(255, 0, 0), rgb(0, 128, 255)]);
+  });
+
+  it('reads coolors URLs', () => {
+    expect(parsePaletteText('https://coolors.co/264653-2a9d8f-e9c46a')).toEqual([
+      rgb(0x26, 0x46, 0x53),
+      rgb(0x2a, 0x9d, 0x8f),
+      rgb(0xe9, 0xc4, 0x6a),
+    ]);
+  });
+
+  it('reads CSS custom properties and skips unresolvable ones', () => {
+    const css = ':root {\n  --primary: #264653;\n  --accent: rgb(233, 196, 106);\n  --link: var(--primary);\n}';
+    expect(parsePaletteText(css)).toEqual([rgb(0x26, 0x46, 0x53), rgb(233, 196, 106)]);
+  });
+
+  it('reads hex lists but ignores short words without #', () => {
+    expect(parsePaletteText('#abc, 112233\nface bead cafe12')).toEqual([
+      rgb(0xaa, 0xbb, 0xcc),
+      rgb(0x11, 0x22, 0x33),
+      rgb(0xca, 0xfe, 0x12),
+    ]);
+  });
+});
+
+describe('parseAsePalette', () => {
+  it('converts RGB, CMYK, LAB and Gray swatches and skips group blocks', () => {
+    const buffer = createAse([
+      { model: 'RGB', values: [1, 0.5, 0] },
+      { model: 'CMYK', values: [0, 1, 1, 0] },
+      { model: 'LAB', values: [1, 0, 0] },
+      { model: 'Gray', values: [0.5] },
+    ], true);
+
+    expect(parseAsePalette(buffer)).toEqual([
+      rgb(255, 128, 0),
+      rgb(255, 0, 0),
+      rgb(255, 255, 255),
+      rgb(128, 128, 128),
+    ]);
+  });
+
+  it('rejects files without the ASEF signature', () => {
+    expect(() => parseAsePalette(new ArrayBuffer(16))).toThrow('Not an ASE file');
+  });
+});
+
+describe('mapPaletteToGroups', () => {
+  const groups = createDefaultColorGroups();
+  const colors = [rgb(0, 0, 0), rgb(255, 255, 255), rgb(255, 0, 0), rgb(0, 0, 255), rgb(0, 255, 0)];
+
+  it('fills groups in order, sends extra colors to strokes and keeps opacity', () => {
+    const mapped = mapPaletteToGroups(groups, colors, 'inOrder');
+
+    expect(mapped.map(group => group.fill)).toEqual(
+      colors.slice(0, 4).map((color, index) => ({ ...color, a: groups[index].fill.a }))
+    );
+    expect(mapped[0].stroke).toEqual({ ...colors[4], a: groups[0].stroke.a });
+    expect(mapped[1].stroke).toEqual(groups[1].stroke);
+  });
+
+  it('cycles colors when the palette is shorter than the group list', () => {
+    const mapped = mapPaletteToGroups(groups, colors.slice(2, 4), 'inOrder');
+    expect(mapped.map(group => group.fill.r)).toEqual([255, 0, 255, 0]);
+  });
+
+  it('orders by luminance from dark to light', () => {
+    const mapped = mapPaletteToGroups(groups, [colors[1], colors[4], colors[0], colors[3]], 'luminance');
+    expect(mapped.map(({ fill: { r, g, b } }) => [r, g, b])).toEqual([[0, 0, 0], [0, 0, 255], [0, 255, 0], [255, 255, 255]]);
+  });
+
+  it('shuffles deterministically for a seed', () => {
+    expect(mapPaletteToGroups(groups, colors, 'random', 7)).toEqual(mapPaletteToGroups(groups, colors, 'random', 7));
+  });
+});
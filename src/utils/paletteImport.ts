@@ -0,0 +1,237 @@
+import { ColorGroup, ColorRGBA } from '../types';
+import { SeededRandom } from './random';
+
+// 팔레트 색상을 그룹에 배치하는 순서
+export type PaletteMapping = 'inOrder' | 'luminance' | 'random';
+
+const clampChannel = (value: number) => Math.round(Math.min(255, Math.max(0, value)));
+
+const rgb = (r: number, g: number, b: number, a: number = 1): ColorRGBA => ({
+  r: clampChannel(r),
+  g: clampChannel(g),
+  b: clampChannel(b),
+  a: Math.min(1, Math.max(0, a))
+});
+
+// #rgb, #rrggbb, #rrggbbaa (# 생략 가능)
+const parseHex = (value: string): ColorRGBA | null => {
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+  if (!match) return null;
+
+  let hex = match[1];
+  if (hex.length === 3) {
+    hex = hex.split('').map(c => c + c).join('');
+  }
+  const a = hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1;
+  return rgb(parseInt(hex.slice(0, 2), 16), parseInt(hex.slice(2, 4), 16), parseInt(hex.slice(4, 6), 16), a);
+};
+
+// HSL (h: 도, s/l: 0~1) → RGB
+const hslToRgb = (h: number, s: number, l: number, a: number): ColorRGBA => {
+  const k = (n: number) => (n + h / 30) % 12;
+  const chroma = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - chroma * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return rgb(f(0) * 255, f(8) * 255, f(4) * 255, a);
+};
+
+// 함수 인자 하나 (퍼센트면 scale 기준으로 변환)
+const parseComponent = (value: string, scale: number): number =>
+  value.endsWith('%') ? (parseFloat(value) / 100) * scale : parseFloat(value);
+
+/**
+ * CSS 색상 값 하나를 파싱합니다 (hex, rgb()/rgba(), hsl()/hsla()).
+ * 이름 색상이나 var() 참조처럼 해석할 수 없는 값은 null을 반환합니다.
+ */
+export const parseCssColor = (value: string): ColorRGBA | null => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('#')) return parseHex(trimmed);
+
+  const match = trimmed.match(/^(rgba?|hsla?)\(([^)]*)\)$/i);
+  if (!match) return null;
+
+  const parts = match[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3) return null;
+  const alpha = parts[3] !== undefined ? parseComponent(parts[3], 1) : 1;
+
+  if (match[1].toLowerCase().startsWith('rgb')) {
+    const [r, g, b] = parts.slice(0, 3).map(part => parseComponent(part, 255));
+    return [r, g, b, alpha].some(Number.isNaN) ? null : rgb(r, g, b, alpha);
+  }
+
+  const h = parseFloat(parts[0]);
+  const s = parseComponent(parts[1], 1);
+  const l = parseComponent(parts[2], 1);
+  return [h, s, l, alpha].some(Number.isNaN) ? null : hslToRgb(((h % 360) + 360) % 360, s, l, alpha);
+};
+
+// GIMP 팔레트 (.gpl): "R G B 이름" 줄
+const parseGpl = (text: string): ColorRGBA[] =>
+  text.split(/\r?\n/).slice(1).flatMap(line => {
+    const match = line.trim().match(/^(\d+)\s+(\d+)\s+(\d+)/);
+    return match ? [rgb(Number(match[1]), Number(match[2]), Number(match[3]))] : [];
+  });
+
+// CSS 커스텀 속성 (--name: value;)
+const parseCssCustomProperties = (text: string): ColorRGBA[] =>
+  Array.from(text.matchAll(/--[\w-]+\s*:\s*([^;}\n]+)/g)).flatMap(([, value]) => {
+    const color = parseCssColor(value);
+    return color ? [color] : [];
+  });
+
+// coolors.co URL의 마지막 경로 (rrggbb-rrggbb-...)
+const parseCoolorsUrl = (text: string): ColorRGBA[] | null => {
+  const match = text.trim().match(/coolors\.co\/(?:palette\/)?([0-9a-f]{6}(?:-[0-9a-f]{6})+)/i);
+  return match ? match[1].split('-').flatMap(hex => parseHex(hex) ?? []) : null;
+};
+
+// 공백/쉼표/줄바꿈으로 구분된 hex 목록 (# 없는 값은 단어와 헷갈리지 않게 6/8자리만 허용)
+const parseHexList = (text: string): ColorRGBA[] =>
+  text.split(/[\s,;]+/).flatMap(token => {
+    if (!token.startsWith('#') && token.length < 6) return [];
+    return parseHex(token) ?? [];
+  });
+
+/**
+ * 텍스트 팔레트를 형식을 추정해 파싱합니다.
+ * GIMP 팔레트, CSS 커스텀 속성, coolors URL, hex 목록을 지원합니다.
+ */
+export const parsePaletteText = (text: string): ColorRGBA[] => {
+  if (/^\s*GIMP Palette/i.test(text)) return parseGpl(text);
+
+  const coolors = parseCoolorsUrl(text);
+  if (coolors) return coolors;
+
+  if (/--[\w-]+\s*:/.test(text)) return parseCssCustomProperties(text);
+
+  return parseHexList(text);
+};
+
+// CIE Lab (D50) → sRGB
+const labToRgb = (l: number, a: number, b: number): ColorRGBA => {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inverse = (t: number) => (t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787);
+  const x = 0.9642 * inverse(fx);
+  const y = 1.0 * inverse(fy);
+  const z = 0.8249 * inverse(fz);
+
+  // D50 XYZ → 선형 sRGB (Bradford 색순응 포함)
+  const lr = 3.1339 * x - 1.6169 * y - 0.4906 * z;
+  const lg = -0.9788 * x + 1.9161 * y + 0.0335 * z;
+  const lb = 0.0719 * x - 0.2290 * y + 1.4052 * z;
+  const gamma = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(Math.max(c, 0), 1 / 2.4) - 0.055);
+  return rgb(gamma(lr) * 255, gamma(lg) * 255, gamma(lb) * 255);
+};
+
+const ASE_COLOR_ENTRY = 0x0001;
+
+/**
+ * Adobe Swatch Exchange (.ase) 바이너리를 파싱합니다.
+ * 그룹 블록은 건너뛰고 색상 블록만 읽으며, RGB/CMYK/LAB/Gray 색상 모델을 sRGB로 변환합니다.
+ */
+export const parseAsePalette = (buffer: ArrayBuffer): ColorRGBA[] => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || String.fromCharCode(...new Uint8Array(buffer, 0, 4)) !== 'ASEF') {
+    throw new Error('Not an ASE file');
+  }
+
+  const blockCount = view.getUint32(8);
+  const colors: ColorRGBA[] = [];
+  let offset = 12;
+
+  for (let block = 0; block < blockCount && offset + 6 <= buffer.byteLength; block++) {
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const start = offset + 6;
+    offset = start + length;
+    if (type !== ASE_COLOR_ENTRY) continue;
+
+    // 이름 (UTF-16BE, 길이는 null 문자 포함 글자 수) 다음에 색상 모델과 float32 값
+    const nameLength = view.getUint16(start);
+    const modelStart = start + 2 + nameLength * 2;
+    const model = String.fromCharCode(...new Uint8Array(buffer, modelStart, 4)).trim().toUpperCase();
+    const value = (index: number) => view.getFloat32(modelStart + 4 + index * 4);
+
+    switch (model) {
+      case 'RGB':
+        colors.push(rgb(value(0) * 255, value(1) * 255, value(2) * 255));
+        break;
+      case 'CMYK': {
+        const k = value(3);
+        colors.push(rgb(255 * (1 - value(0)) * (1 - k), 255 * (1 - value(1)) * (1 - k), 255 * (1 - value(2)) * (1 - k)));
+        break;
+      }
+      case 'LAB':
+        colors.push(labToRgb(value(0) * 100, value(1), value(2)));
+        break;
+      case 'GRAY':
+        colors.push(rgb(value(0) * 255, value(0) * 255, value(0) * 255));
+        break;
+    }
+  }
+
+  return colors;
+};
+
+// 파일 확장자로 형식을 골라 팔레트 파싱
+export const readPaletteFile = async (file: File): Promise<ColorRGBA[]> => {
+  if (/\.ase$/i.test(file.name)) {
+    return parseAsePalette(await file.arrayBuffer());
+  }
+  return parsePaletteText(await file.text());
+};
+
+// 상대 휘도 (sRGB, 0~1)
+const getLuminance = ({ r, g, b }: ColorRGBA): number => {
+  const linear = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+};
+
+// 배치 방식에 따라 팔레트 색상 순서 정렬 (random은 시드로 섞음)
+const orderPalette = (colors: ColorRGBA[], mapping: PaletteMapping, seed: number): ColorRGBA[] => {
+  if (mapping === 'luminance') {
+    // 어두운 색부터
+    return [...colors].sort((a, b) => getLuminance(a) - getLuminance(b));
+  }
+  if (mapping === 'random') {
+    const random = new SeededRandom(seed, 'color');
+    const shuffled = [...colors];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random.next() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+  return colors;
+};
+
+/**
+ * 팔레트 색상을 색상 그룹의 채우기/테두리에 배치합니다.
+ * 채우기를 먼저 그룹 순서대로 채우고 (색상이 모자라면 반복), 남는 색상이 있으면 테두리에 배치합니다.
+ * 기존 채우기/테두리의 불투명도는 유지합니다.
+ */
+export const mapPaletteToGroups = (
+  groups: ColorGroup[],
+  colors: ColorRGBA[],
+  mapping: PaletteMapping,
+  seed: number = 0
+): ColorGroup[] => {
+  if (colors.length === 0) return groups;
+
+  const ordered = orderPalette(colors, mapping, seed);
+  const strokes = ordered.slice(groups.length);
+
+  return groups.map((group, index) => {
+    const fill = ordered[index % ordered.length];
+    const stroke = strokes[index];
+    return {
+      ...group,
+      fill: { ...fill, a: group.fill.a },
+      stroke: stroke ? { ...stroke, a: group.stroke.a } : group.stroke
+    };
+  });
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createCellRandom, hashCell, hashToUnit, SeededRandom } from './random';
+
+const take = (random: SeededRandom, count: number) => Array.from({ length: count }, () => random.next());
+
+describe('hashCell', () => {
+  it('is stable for the same inputs and independent of call order', () => {
+    const first = hashCell(7, 'color', 2, 3);
+    hashCell(7, 'color', 9, 9);
+    expect(hashCell(7, 'color', 2, 3)).toBe(first);
+  });
+
+  it('separates seeds, streams, cells and occurrences', () => {
+    const base = hashCell(7, 'color', 2, 3);
+    expect(hashCell(8, 'color', 2, 3)).not.toBe(base);
+    expect(hashCell(7, 'jitter', 2, 3)).not.toBe(base);
+    expect(hashCell(7, 'color', 3, 2)).not.toBe(base);
+    expect(hashCell(7, 'color', 2, 3, 1)).not.toBe(base);
+  });
+
+  it('maps to the unit interval', () => {
+    for (let col = 0; col < 200; col++) {
+      const value = hashToUnit(hashCell(1, 'color', 0, col));
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('SeededRandom', () => {
+  it('repeats the same sequence for the same seed and stream', () => {
+    expect(take(new SeededRandom(42, 'shape'), 5)).toEqual(take(new SeededRandom(42, 'shape'), 5));
+  });
+
+  it('gives different sequences for neighbouring seeds and for different streams', () => {
+    const base = take(new SeededRandom(42, 'shape'), 5);
+    expect(take(new SeededRandom(43, 'shape'), 5)).not.toEqual(base);
+    expect(take(new SeededRandom(42, 'jitter'), 5)).not.toEqual(base);
+  });
+
+  it('stays roughly uniform', () => {
+    const values = take(new SeededRandom(2024), 10000);
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    expect(mean).toBeGreaterThan(0.48);
+    expect(mean).toBeLessThan(0.52);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+});
+
+describe('createCellRandom', () => {
+  it('depends only on the cell, not on how many cells came before', () => {
+    const first = createCellRandom(5, 'jitter', 1, 4).next();
+    createCellRandom(5, 'jitter', 0, 0).next();
+    expect(createCellRandom(5, 'jitter', 1, 4).next()).toBe(first);
+  });
+});
@@ -0,0 +1,71 @@
+// 난수 흐름 (같은 시드 값을 써도 흐름마다 서로 다른 난수가 나오도록 구분)
+export type RandomStream = 'color' | 'jitter' | 'shape';
+
+const STREAM_SALTS: Record<RandomStream, number> = {
+  color: 0x1b873593,
+  jitter: 0x2c1b3c6d,
+  shape: 0x297a2d39
+};
+
+// 32비트 정수 해시 마무리 (MurmurHash3 fmix32)
+const mix32 = (value: number): number => {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+// 정수들을 하나의 32비트 해시로 결합
+const hashInts = (...values: number[]): number =>
+  values.reduce((hash, value) => mix32(hash ^ Math.imul(value | 0, 0x9e3779b1) ^ 0x7f4a7c15), 0x811c9dc5);
+
+/**
+ * (시드, 행, 열)로 셀마다 고정된 32비트 해시를 만듭니다.
+ * 셀 순서와 무관하므로 행/열을 추가해도 기존 셀의 값은 바뀌지 않습니다.
+ * 같은 (행, 열)에 여러 셀이 있는 배치는 occurrence(등장 순서)로 구분합니다.
+ */
+export const hashCell = (
+  seed: number,
+  stream: RandomStream,
+  row: number,
+  col: number,
+  occurrence: number = 0
+): number => hashInts(seed, STREAM_SALTS[stream], row, col, occurrence);
+
+// 해시 값을 [0, 1) 범위로 변환
+export const hashToUnit = (hash: number): number => hash / 4294967296;
+
+// Seeded random number generator (Mulberry32, 주기 2^32)
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number, stream?: RandomStream) {
+    // 시드를 해시해 가까운 시드끼리도 전혀 다른 수열이 나오게 함
+    this.state = stream ? hashInts(seed, STREAM_SALTS[stream]) : hashInts(seed);
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // [-1, 1) 범위의 난수
+  nextSigned(): number {
+    return this.next() * 2 - 1;
+  }
+}
+
+// 셀 하나에 고정된 난수 수열 (셀마다 여러 값을 뽑을 때)
+export const createCellRandom = (
+  seed: number,
+  stream: RandomStream,
+  row: number,
+  col: number,
+  occurrence: number = 0
+): SeededRandom => new SeededRandom(hashCell(seed, stream, row, col, occurrence));
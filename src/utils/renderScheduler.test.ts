@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRenderScheduler } from './renderScheduler';
+
+describe('createRenderScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const setup = () => {
+    const scheduler = createRenderScheduler();
+    const render = vi.fn();
+    scheduler.setRenderer(render);
+    vi.advanceTimersToNextFrame();
+    render.mockClear();
+    return { scheduler, render };
+  };
+
+  it('renders once per dirty frame and then goes idle', () => {
+    const { scheduler, render } = setup();
+
+    scheduler.requestRender();
+    scheduler.requestRender();
+    vi.advanceTimersToNextFrame();
+    expect(render).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersToNextFrame();
+    vi.advanceTimersToNextFrame();
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('keeps rendering while a continuous reason is set', () => {
+    const { scheduler, render } = setup();
+
+    scheduler.setContinuous('controls', true);
+    vi.advanceTimersToNextFrame();
+    vi.advanceTimersToNextFrame();
+    vi.advanceTimersToNextFrame();
+    expect(render).toHaveBeenCalledTimes(3);
+
+    scheduler.setContinuous('controls', false);
+    vi.advanceTimersToNextFrame();
+    vi.advanceTimersToNextFrame();
+    expect(render).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps the loop alive until every frame callback settles', () => {
+    const { scheduler, render } = setup();
+    let remaining = 2;
+    const callback = vi.fn(() => remaining-- > 0);
+
+    scheduler.addFrameCallback(callback);
+    vi.advanceTimersToNextFrame();
+    vi.advanceTimersToNextFrame();
+    vi.advanceTimersToNextFrame();
+    vi.advanceTimersToNextFrame();
+
+    // 마지막으로 false를 반환한 프레임은 그리지 않고 루프 종료
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('stops calling a removed frame callback', () => {
+    const { scheduler } = setup();
+    const callback = vi.fn(() => true);
+
+    const remove = scheduler.addFrameCallback(callback);
+    vi.advanceTimersToNextFrame();
+    remove();
+    vi.advanceTimersToNextFrame();
+    vi.advanceTimersToNextFrame();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels the pending frame and drops the renderer on stop', () => {
+    const { scheduler, render } = setup();
+
+    scheduler.requestRender();
+    scheduler.stop();
+    vi.advanceTimersToNextFrame();
+    scheduler.requestRender();
+    vi.advanceTimersToNextFrame();
+
+    expect(render).not.toHaveBeenCalled();
+  });
+});
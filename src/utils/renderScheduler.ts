@@ -0,0 +1,86 @@
+// 프레임마다 호출되는 콜백 (true를 반환하면 아직 움직이는 중이므로 이번 프레임을 그리고 다음 프레임도 예약)
+export type FrameCallback = (time: number) => boolean;
+
+export interface RenderScheduler {
+  requestRender: () => void;
+  addFrameCallback: (callback: FrameCallback) => () => void;
+  setContinuous: (reason: string, enabled: boolean) => void;
+  setRenderer: (render: (() => void) | null) => void;
+  stop: () => void;
+}
+
+/**
+ * 필요할 때만 그리는 단일 requestAnimationFrame 루프를 만듭니다.
+ * 설정/컨트롤/카메라 이동이 requestRender로 프레임을 더럽히면 다음 프레임에 한 번 그리고,
+ * 프레임 콜백이 true를 반환하거나 continuous 요청이 남아 있는 동안에만 루프를 이어갑니다.
+ */
+export const createRenderScheduler = (): RenderScheduler => {
+  const frameCallbacks = new Set<FrameCallback>();
+  // 연속 렌더링을 요청한 이유 (애니메이션, 컨트롤 드래그 등)
+  const continuousReasons = new Set<string>();
+  let render: (() => void) | null = null;
+  let frameId: number | undefined;
+  let isDirty = false;
+
+  const scheduleFrame = () => {
+    if (frameId === undefined) {
+      frameId = requestAnimationFrame(tick);
+    }
+  };
+
+  const tick = (time: number) => {
+    frameId = undefined;
+
+    let isActive = continuousReasons.size > 0;
+    frameCallbacks.forEach(callback => {
+      if (callback(time)) isActive = true;
+    });
+
+    if (isDirty || isActive) {
+      isDirty = false;
+      render?.();
+    }
+
+    if (isActive) {
+      scheduleFrame();
+    }
+  };
+
+  const requestRender = () => {
+    isDirty = true;
+    scheduleFrame();
+  };
+
+  const addFrameCallback = (callback: FrameCallback) => {
+    frameCallbacks.add(callback);
+    requestRender();
+    return () => {
+      frameCallbacks.delete(callback);
+    };
+  };
+
+  const setContinuous = (reason: string, enabled: boolean) => {
+    if (enabled) {
+      continuousReasons.add(reason);
+    } else {
+      continuousReasons.delete(reason);
+    }
+    requestRender();
+  };
+
+  const setRenderer = (nextRender: (() => void) | null) => {
+    render = nextRender;
+    requestRender();
+  };
+
+  const stop = () => {
+    if (frameId !== undefined) {
+      cancelAnimationFrame(frameId);
+      frameId = undefined;
+    }
+    render = null;
+    isDirty = false;
+  };
+
+  return { requestRender, addFrameCallback, setContinuous, setRenderer, stop };
+};
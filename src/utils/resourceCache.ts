@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+
+interface Disposable {
+  dispose: () => void;
+}
+
+interface CacheEntry<T> {
+  resource: T;
+  refs: number;
+}
+
+export interface ResourceCache<T extends Disposable> {
+  acquire: (key: string, create: () => T) => T;
+  release: (resource: T) => void;
+  clear: () => void;
+  size: () => number;
+}
+
+/**
+ * 키로 공유되는 참조 카운트 기반 GPU 자원 캐시를 만듭니다.
+ * 같은 키를 다시 요청하면 기존 자원을 재사용하고, 마지막 참조가 해제되면 dispose합니다.
+ * 다시 생성할 때는 새 자원을 먼저 acquire한 뒤 이전 자원을 release해야 재사용됩니다.
+ */
+export const createResourceCache = <T extends Disposable>(): ResourceCache<T> => {
+  const entries = new Map<string, CacheEntry<T>>();
+  const keys = new WeakMap<T, string>();
+
+  const acquire = (key: string, create: () => T): T => {
+    const entry = entries.get(key);
+    if (entry) {
+      entry.refs++;
+      return entry.resource;
+    }
+
+    const resource = create();
+    entries.set(key, { resource, refs: 1 });
+    keys.set(resource, key);
+    return resource;
+  };
+
+  const release = (resource: T): void => {
+    const key = keys.get(resource);
+    const entry = key !== undefined ? entries.get(key) : undefined;
+
+    // 캐시 밖에서 만든 자원은 바로 해제
+    if (!entry || entry.resource !== resource) {
+      resource.dispose();
+      return;
+    }
+
+    entry.refs--;
+    if (entry.refs <= 0) {
+      entries.delete(key!);
+      keys.delete(resource);
+      resource.dispose();
+    }
+  };
+
+  const clear = (): void => {
+    entries.forEach(({ resource }) => resource.dispose());
+    entries.clear();
+  };
+
+  return { acquire, release, clear, size: () => entries.size };
+};
+
+// 도형 지오메트리 캐시 (도형 종류, 크기, 비율, 테두리 두께, 돌출 설정이 같으면 공유)
+export const geometryCache = createResourceCache<THREE.BufferGeometry>();
+
+// 색상 그룹별 재질 캐시 (다시 생성해도 같은 그룹은 재질과 셰이더 프로그램을 재사용)
+export const materialCache = createResourceCache<THREE.Material>();
+
+// 캐시 키 생성 (값이 같은 객체는 같은 키)
+export const createCacheKey = (...parts: unknown[]): string => JSON.stringify(parts);
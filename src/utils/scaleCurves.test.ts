@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ScaleCurveType } from '../types';
+import { calculateCurveScale, evaluateScaleCurve } from './scaleCurves';
+
+describe('evaluateScaleCurve', () => {
+  it('starts at 0 and ends at 1 for the easing curves', () => {
+    (['linear', 'easeIn', 'easeOut', 'easeInOut'] as ScaleCurveType[]).forEach(type => {
+      expect(evaluateScaleCurve({ type }, 0)).toBeCloseTo(0);
+      expect(evaluateScaleCurve({ type }, 1)).toBeCloseTo(1);
+    });
+  });
+
+  it('shapes the midpoint by curve type', () => {
+    expect(evaluateScaleCurve({ type: 'linear' }, 0.5)).toBeCloseTo(0.5);
+    expect(evaluateScaleCurve({ type: 'easeIn' }, 0.5)).toBeCloseTo(0.25);
+    expect(evaluateScaleCurve({ type: 'easeOut' }, 0.5)).toBeCloseTo(0.75);
+    expect(evaluateScaleCurve({ type: 'easeInOut' }, 0.5)).toBeCloseTo(0.5);
+    expect(evaluateScaleCurve({ type: 'bulge' }, 0.5)).toBeCloseTo(1);
+    expect(evaluateScaleCurve({ type: 'bulge' }, 1)).toBeCloseTo(0);
+  });
+
+  it('repeats the sine curve the given number of waves', () => {
+    const curve = { type: 'sine' as const, waves: 2 };
+    expect(evaluateScaleCurve(curve, 0)).toBeCloseTo(0);
+    expect(evaluateScaleCurve(curve, 0.25)).toBeCloseTo(1);
+    expect(evaluateScaleCurve(curve, 0.5)).toBeCloseTo(0);
+    expect(evaluateScaleCurve(curve, 0.75)).toBeCloseTo(1);
+  });
+
+  it('interpolates custom points, sorting them and holding the end values', () => {
+    const curve = { type: 'custom' as const, points: [{ x: 0.8, y: 0.2 }, { x: 0.2, y: 1 }] };
+    expect(evaluateScaleCurve(curve, 0)).toBe(1);
+    expect(evaluateScaleCurve(curve, 0.5)).toBeCloseTo(0.6);
+    expect(evaluateScaleCurve(curve, 1)).toBe(0.2);
+  });
+
+  it('clamps progress outside 0..1', () => {
+    expect(evaluateScaleCurve({ type: 'linear' }, -0.5)).toBe(0);
+    expect(evaluateScaleCurve({ type: 'easeIn' }, 2)).toBe(1);
+  });
+});
+
+describe('calculateCurveScale', () => {
+  it('goes from 1x at the first index to factor at the last', () => {
+    const curve = { type: 'linear' as const };
+    expect(calculateCurveScale(0, 5, 3, curve)).toBe(1);
+    expect(calculateCurveScale(2, 5, 3, curve)).toBe(2);
+    expect(calculateCurveScale(4, 5, 3, curve)).toBe(3);
+  });
+
+  it('leaves a single cell at 1x', () => {
+    expect(calculateCurveScale(0, 1, 3, { type: 'linear' })).toBe(1);
+  });
+});
@@ -0,0 +1,66 @@
+import { CurvePoint, ScaleCurve } from '../types';
+
+// 사용자 정의 곡선의 기본 제어점 (직선)
+export const DEFAULT_CURVE_POINTS: CurvePoint[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 1 },
+];
+
+// 제어점 사이를 선형 보간 (범위 밖은 양 끝 값 유지)
+const interpolatePoints = (points: CurvePoint[], t: number): number => {
+  if (points.length === 0) return t;
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+
+  if (t <= sorted[0].x) return sorted[0].y;
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const next = sorted[i];
+    if (t <= next.x) {
+      const span = next.x - prev.x;
+      return span > 0 ? prev.y + ((t - prev.x) / span) * (next.y - prev.y) : next.y;
+    }
+  }
+  return sorted[sorted.length - 1].y;
+};
+
+/**
+ * 진행도 t(0~1)에서 곡선의 강도(0~1)를 계산합니다.
+ */
+export const evaluateScaleCurve = (curve: ScaleCurve, t: number): number => {
+  const x = Math.min(1, Math.max(0, t));
+
+  switch (curve.type) {
+    case 'easeIn':
+      return x * x;
+    case 'easeOut':
+      return 1 - (1 - x) * (1 - x);
+    case 'easeInOut':
+      return x < 0.5 ? 2 * x * x : 1 - Math.pow(-2 * x + 2, 2) / 2;
+    case 'sine':
+      // 기본 크기에서 시작해 waves번 최대 크기까지 오르내림
+      return 0.5 - 0.5 * Math.cos(Math.PI * 2 * (curve.waves ?? 1) * x);
+    case 'bulge':
+      // 가운데가 가장 크고 양 끝으로 갈수록 기본 크기
+      return Math.sin(Math.PI * x);
+    case 'custom':
+      return interpolatePoints(curve.points ?? DEFAULT_CURVE_POINTS, x);
+    case 'linear':
+    default:
+      return x;
+  }
+};
+
+/**
+ * index번째 칸(전체 total칸)의 크기 배율을 계산합니다.
+ * 곡선 강도 0이면 1배, 1이면 factor배입니다.
+ */
+export const calculateCurveScale = (
+  index: number,
+  total: number,
+  factor: number,
+  curve: ScaleCurve
+): number => {
+  if (total <= 1) return 1;
+  const progression = index / (total - 1);
+  return 1 + (factor - 1) * evaluateScaleCurve(curve, progression);
+};
@@ -0,0 +1,23 @@
+// localStorage 용량 (브라우저마다 다르지만 보통 5MB 내외)을 넘겨 저장하지 못했을 때
+export class StorageFullError extends Error {
+  constructor() {
+    super('Browser storage is full. Delete some projects or captures, or use a smaller image.');
+    this.name = 'StorageFullError';
+  }
+}
+
+const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * 값을 JSON으로 localStorage에 저장합니다.
+ * 용량 초과는 StorageFullError로 바꿔 던지므로 호출하는 쪽에서 사용자에게 알릴 수 있습니다.
+ */
+export const writeStorage = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    throw isQuotaExceededError(error) ? new StorageFullError() : error;
+  }
+};
@@ -0,0 +1,68 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { CircleData, CircleGridConfig, ShapeType } from '../types';
+import { applySurfaceMapping } from './surfaceMappings';
+
+const config = {
+  rows: 10,
+  cols: 20,
+  rowSpacing: 2,
+  colSpacing: 2,
+  shapeType: ShapeType.Circle,
+  circleRadius: 0.5,
+  rectangleWidth: 1,
+  rectangleHeight: 1,
+} as CircleGridConfig;
+
+// 원래 위치를 userData에 담은 프록시를 가진 셀
+const createCell = (x: number, y: number): CircleData => {
+  const mesh = new THREE.Object3D();
+  mesh.userData.originalPosition = { x, y, z: 0 };
+  mesh.position.set(x, y, 0);
+  return { position: { x, y, z: 0 }, colorGroup: 0, columnIndex: 0, rowIndex: 0, mesh };
+};
+
+const normalOf = (cell: CircleData) => new THREE.Vector3(0, 0, 1).applyQuaternion(cell.mesh!.quaternion);
+
+describe('applySurfaceMapping', () => {
+  it('leaves the grid flat when curvature is 0', () => {
+    (['sphere', 'torus', 'cone', 'saddle'] as const).forEach(mapping => {
+      const cell = createCell(3, -4);
+      applySurfaceMapping([cell], mapping, { curvature: 0, radius: 10, minorRadius: 2, coneAngle: 30 }, config);
+
+      expect(cell.mesh!.position.x).toBeCloseTo(3);
+      expect(cell.mesh!.position.y).toBeCloseTo(-4);
+      expect(cell.mesh!.position.z).toBeCloseTo(0);
+      expect(normalOf(cell).z).toBeCloseTo(1);
+    });
+  });
+
+  it('puts cells on the sphere and turns them to face outward', () => {
+    const radius = 10;
+    const center = new THREE.Vector3(0, 0, -radius);
+    const cells = [createCell(0, 0), createCell(8, 3), createCell(-15, -6)];
+    applySurfaceMapping(cells, 'sphere', { curvature: 1, radius }, config);
+
+    cells.forEach(cell => {
+      const outward = cell.mesh!.position.clone().sub(center);
+      expect(outward.length()).toBeCloseTo(radius);
+      expect(normalOf(cell).dot(outward.normalize())).toBeCloseTo(1, 3);
+    });
+  });
+
+  it('follows the saddle height z = (x² - y²) / 2R', () => {
+    const cell = createCell(4, 2);
+    applySurfaceMapping([cell], 'saddle', { curvature: 1, radius: 6 }, config);
+
+    expect(cell.mesh!.position.z).toBeCloseTo((16 - 4) / 12);
+  });
+
+  it('maps from the stored original position, not the current one', () => {
+    const cell = createCell(5, 1);
+    cell.mesh!.position.set(100, 100, 100);
+    const reference = createCell(5, 1);
+
+    applySurfaceMapping([cell, reference], 'torus', { curvature: 0.7, radius: 12, minorRadius: 3 }, config);
+    expect(cell.mesh!.position.distanceTo(reference.mesh!.position)).toBeCloseTo(0);
+  });
+});
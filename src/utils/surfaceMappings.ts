@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import { CircleData, CircleGridConfig, SurfaceMapping, SurfaceParams } from '../types';
+
+// 평면 좌표 (x, y)를 곡면 위의 점으로 옮기는 함수 (curvature로 평면과 곡면 사이를 보간)
+type SurfaceFunction = (
+  x: number,
+  y: number,
+  params: SurfaceParams,
+  size: { width: number; height: number }
+) => THREE.Vector3;
+
+// 곡면 위 점과 평면 위 점을 curvature 비율로 섞음 (원통 변환과 같은 방식)
+const blendWithPlane = (x: number, y: number, surface: THREE.Vector3, curvature: number): THREE.Vector3 =>
+  new THREE.Vector3(x, y, 0).multiplyScalar(1 - curvature).add(surface.multiplyScalar(curvature));
+
+// 구: 가로는 경도, 세로는 위도 (격자 중심이 원점, 구 중심은 -Z 방향)
+const sphereSurface: SurfaceFunction = (x, y, { curvature, radius }, { width, height }) => {
+  const longitude = (x / width) * Math.PI * 2 * curvature;
+  const latitude = THREE.MathUtils.clamp((y / height) * Math.PI * curvature, -Math.PI / 2, Math.PI / 2);
+
+  const surface = new THREE.Vector3(
+    Math.cos(latitude) * Math.sin(longitude) * radius,
+    Math.sin(latitude) * radius,
+    Math.cos(latitude) * Math.cos(longitude) * radius - radius
+  );
+  return blendWithPlane(x, y, surface, curvature);
+};
+
+// 토러스: 가로는 Y축을 도는 큰 원, 세로는 튜브를 도는 작은 원
+const torusSurface: SurfaceFunction = (x, y, { curvature, radius, minorRadius = 2 }, { width, height }) => {
+  const majorAngle = (x / width) * Math.PI * 2 * curvature;
+  const minorAngle = (y / height) * Math.PI * 2 * curvature;
+  const ringRadius = radius + Math.cos(minorAngle) * minorRadius;
+
+  const surface = new THREE.Vector3(
+    Math.sin(majorAngle) * ringRadius,
+    Math.sin(minorAngle) * minorRadius,
+    Math.cos(majorAngle) * ringRadius - (radius + minorRadius)
+  );
+  return blendWithPlane(x, y, surface, curvature);
+};
+
+// 원뿔: Y축을 감싸며 위로 갈수록 반지름이 coneAngle 기울기로 줄어듦
+const coneSurface: SurfaceFunction = (x, y, { curvature, radius, coneAngle = 30 }, { width }) => {
+  const angle = (x / width) * Math.PI * 2 * curvature;
+  const slope = Math.tan(THREE.MathUtils.degToRad(coneAngle));
+  const ringRadius = Math.max(radius - y * slope, 0);
+
+  const surface = new THREE.Vector3(
+    Math.sin(angle) * ringRadius,
+    y,
+    Math.cos(angle) * ringRadius - radius
+  );
+  return blendWithPlane(x, y, surface, curvature);
+};
+
+// 안장면 (쌍곡 포물면): z = (x² - y²) / 2R
+const saddleSurface: SurfaceFunction = (x, y, { curvature, radius }) =>
+  new THREE.Vector3(x, y, ((x * x - y * y) / (2 * Math.max(radius, 1e-6))) * curvature);
+
+const surfaceFunctions: Record<Exclude<SurfaceMapping, 'cylinder'>, SurfaceFunction> = {
+  sphere: sphereSurface,
+  torus: torusSurface,
+  cone: coneSurface,
+  saddle: saddleSurface,
+};
+
+// 법선 계산용 유한 차분 간격
+const TANGENT_STEP = 0.01;
+
+/**
+ * 원통 외의 곡면으로 격자를 감쌉니다.
+ * 각 도형은 곡면 위로 이동하고, 곡면의 접선/법선 방향에 맞춰 회전합니다
+ * (도형의 +Z가 법선, +X가 가로 방향 접선). 회전은 mesh.quaternion에 저장됩니다.
+ */
+export const applySurfaceMapping = (
+  circles: CircleData[],
+  mapping: Exclude<SurfaceMapping, 'cylinder'>,
+  params: SurfaceParams,
+  config: CircleGridConfig
+): void => {
+  const surface = surfaceFunctions[mapping];
+  const size = { width: config.cols * config.colSpacing, height: config.rows * config.rowSpacing };
+
+  const tangentX = new THREE.Vector3();
+  const tangentY = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const basis = new THREE.Matrix4();
+
+  circles.forEach(circle => {
+    if (!circle.mesh) return;
+
+    const { x, y } = circle.mesh.userData.originalPosition || circle.position;
+    circle.mesh.position.copy(surface(x, y, params, size));
+
+    // 가로/세로 방향 접선에서 법선을 구해 회전 기준 좌표계 생성
+    tangentX.subVectors(surface(x + TANGENT_STEP, y, params, size), surface(x - TANGENT_STEP, y, params, size));
+    tangentY.subVectors(surface(x, y + TANGENT_STEP, params, size), surface(x, y - TANGENT_STEP, params, size));
+    normal.crossVectors(tangentX, tangentY);
+
+    // 극점처럼 접선이 사라지는 곳에서는 회전하지 않음
+    if (normal.lengthSq() < 1e-12 || tangentX.lengthSq() < 1e-12) {
+      circle.mesh.quaternion.identity();
+      return;
+    }
+
+    normal.normalize();
+    tangentX.normalize();
+    tangentY.crossVectors(normal, tangentX);
+    basis.makeBasis(tangentX, tangentY, normal);
+    circle.mesh.quaternion.setFromRotationMatrix(basis);
+  });
+};
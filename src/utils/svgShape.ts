@@ -0,0 +1,193 @@
+import * as THREE from 'three';
+import { SVGLoader } from 'three-stdlib';
+import { insetContour } from './contourUtils';
+
+interface SvgContour {
+  outer: THREE.Vector2[];
+  holes: THREE.Vector2[][];
+}
+
+// 곡선 구간을 직선으로 나눌 개수
+const CURVE_DIVISIONS = 24;
+
+// 파싱 결과 캐시 (같은 SVG를 셀마다 다시 파싱하지 않도록)
+let cachedSvgText: string | null = null;
+let cachedContours: SvgContour[] | null = null;
+
+// 연속으로 겹치는 점과 마지막 닫힘 점을 제거 (길이 0인 변은 법선을 계산할 수 없음)
+const cleanContour = (points: THREE.Vector2[]): THREE.Vector2[] => {
+  const cleaned: THREE.Vector2[] = [];
+  points.forEach(point => {
+    const last = cleaned[cleaned.length - 1];
+    if (!last || last.distanceToSquared(point) > 1e-12) {
+      cleaned.push(point.clone());
+    }
+  });
+  if (cleaned.length > 1 && cleaned[0].distanceToSquared(cleaned[cleaned.length - 1]) <= 1e-12) {
+    cleaned.pop();
+  }
+  return cleaned;
+};
+
+/**
+ * SVG 문자열을 파싱하여 원점 중심, 가로/세로 각각 길이 1로 정규화된 윤곽선을 반환합니다.
+ * `<svg>` 태그 없이 path의 d 속성만 붙여 넣어도 동작합니다.
+ * 파싱할 수 없거나 도형이 없으면 null을 반환합니다.
+ */
+export const parseSvgContours = (svgText: string): SvgContour[] | null => {
+  const text = svgText.trim();
+  if (!text) return null;
+  if (text === cachedSvgText) return cachedContours;
+
+  let contours: SvgContour[] | null = null;
+
+  try {
+    const markup = text.includes('<svg')
+      ? text
+      : `<svg xmlns="http://www.w3.org/2000/svg"><path d="${text.replace(/"/g, '')}"/></svg>`;
+    const { paths } = new SVGLoader().parse(markup);
+
+    const rawContours: SvgContour[] = [];
+    paths.forEach(path => {
+      SVGLoader.createShapes(path).forEach(shape => {
+        const { shape: outer, holes } = shape.extractPoints(CURVE_DIVISIONS);
+        const cleanedOuter = cleanContour(outer);
+        if (cleanedOuter.length < 3) return;
+        rawContours.push({
+          outer: cleanedOuter,
+          holes: holes.map(cleanContour).filter(hole => hole.length >= 3),
+        });
+      });
+    });
+
+    if (rawContours.length > 0) {
+      const box = new THREE.Box2();
+      rawContours.forEach(contour => contour.outer.forEach(p => box.expandByPoint(p)));
+
+      const size = box.getSize(new THREE.Vector2());
+      const center = box.getCenter(new THREE.Vector2());
+      const scaleX = 1 / Math.max(size.x, 1e-6);
+      const scaleY = 1 / Math.max(size.y, 1e-6);
+
+      // SVG는 y축이 아래를 향하므로 뒤집어서 정규화
+      const normalize = (points: THREE.Vector2[]) => points.map(p => new THREE.Vector2(
+        (p.x - center.x) * scaleX,
+        -(p.y - center.y) * scaleY
+      ));
+
+      contours = rawContours.map(contour => ({
+        outer: normalize(contour.outer),
+        holes: contour.holes.map(normalize),
+      }));
+    }
+  } catch (error) {
+    console.warn('Failed to parse custom SVG shape:', error);
+  }
+
+  cachedSvgText = text;
+  cachedContours = contours;
+  return contours;
+};
+
+const scaleContour = (points: THREE.Vector2[], width: number, height: number): THREE.Vector2[] =>
+  points.map(p => new THREE.Vector2(p.x * width, p.y * height));
+
+// 저장/공유할 SVG의 최대 길이 (compactSvg 결과 기준, 설정과 공유 URL 크기를 제한)
+export const MAX_CUSTOM_SVG_LENGTH = 20000;
+
+const formatCoordinate = (value: number): string => String(Math.round(value * 1000) / 1000);
+
+/**
+ * SVG를 정규화된 윤곽선만 남긴 짧은 SVG로 다시 씁니다 (스타일, 메타데이터 등 제거).
+ * 도형마다 바깥 윤곽선과 구멍을 evenodd path 하나로 묶으며, 파싱할 수 없으면 null을 반환합니다.
+ */
+export const compactSvg = (svgText: string): string | null => {
+  const contours = parseSvgContours(svgText);
+  if (!contours) return null;
+
+  // 정규화할 때 뒤집은 y축을 SVG 방향으로 되돌림
+  const toPathData = (points: THREE.Vector2[]) =>
+    `M${points.map(p => `${formatCoordinate(p.x)} ${formatCoordinate(-p.y)}`).join('L')}Z`;
+  const paths = contours.map(contour =>
+    `<path fill-rule="evenodd" d="${[contour.outer, ...contour.holes].map(toPathData).join('')}"/>`
+  );
+  return `<svg xmlns="http://www.w3.org/2000/svg">${paths.join('')}</svg>`;
+};
+
+/**
+ * SVG 윤곽선으로 채우기 도형 목록을 생성합니다.
+ * 윤곽선 경계를 width × height 상자에 맞춥니다 (직사각형처럼 가로/세로를 따로 늘림).
+ */
+export const createSvgShapes = (
+  svgText: string,
+  width: number,
+  height: number
+): THREE.Shape[] | null => {
+  const contours = parseSvgContours(svgText);
+  if (!contours) return null;
+
+  return contours.map(contour => {
+    const shape = new THREE.Shape(scaleContour(contour.outer, width, height));
+    contour.holes.forEach(hole => {
+      shape.holes.push(new THREE.Path(scaleContour(hole, width, height)));
+    });
+    return shape;
+  });
+};
+
+/**
+ * SVG 윤곽선을 따라가는 테두리 도형 목록을 생성합니다.
+ * 바깥 윤곽선은 안쪽으로, 구멍 윤곽선은 바깥쪽으로 thickness만큼 두께를 줍니다.
+ */
+export const createSvgStrokeShapes = (
+  svgText: string,
+  width: number,
+  height: number,
+  thickness: number
+): THREE.Shape[] | null => {
+  const contours = parseSvgContours(svgText);
+  if (!contours) return null;
+
+  const shapes: THREE.Shape[] = [];
+
+  contours.forEach(contour => {
+    const outer = scaleContour(contour.outer, width, height);
+    const ring = new THREE.Shape(outer);
+    const inner = insetContour(outer, thickness);
+    if (inner.length > 0) {
+      ring.holes.push(new THREE.Path(inner));
+    }
+    shapes.push(ring);
+
+    contour.holes.forEach(hole => {
+      const holePoints = scaleContour(hole, width, height);
+      const expanded = insetContour(holePoints, -thickness);
+      if (expanded.length === 0) return;
+
+      const holeRing = new THREE.Shape(expanded);
+      holeRing.holes.push(new THREE.Path(holePoints));
+      shapes.push(holeRing);
+    });
+  });
+
+  return shapes;
+};
+
+export const createSvgShapeGeometry = (
+  svgText: string,
+  width: number,
+  height: number
+): THREE.BufferGeometry | null => {
+  const shapes = createSvgShapes(svgText, width, height);
+  return shapes ? new THREE.ShapeGeometry(shapes) : null;
+};
+
+export const createSvgShapeStrokeGeometry = (
+  svgText: string,
+  width: number,
+  height: number,
+  thickness: number
+): THREE.BufferGeometry | null => {
+  const shapes = createSvgStrokeShapes(svgText, width, height, thickness);
+  return shapes ? new THREE.ShapeGeometry(shapes) : null;
+};